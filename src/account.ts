@@ -0,0 +1,583 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  Account,
+  Activation,
+  ClaimsData,
+  Export,
+  Import,
+  RevocationList,
+  User,
+  ValidDates,
+} from "./types.ts";
+import type { ValidationIssue, ValidationOptions } from "./validate.ts";
+import {
+  validateDates,
+  validationError,
+  validationWarning,
+} from "./validate.ts";
+import { isIssuerOf, signingKeyIds } from "./chain.ts";
+import { decodeActivation, encodeActivation } from "./jwt.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+import { issuer, nowSeconds } from "./util.ts";
+import { checkKey, isPublicKey } from "./keys.ts";
+import type { Key } from "./keys.ts";
+import {
+  isSubjectSubset,
+  isValidSubject,
+  SingleWildcard,
+  tokenizeSubject,
+} from "./subject.ts";
+
+/**
+ * Revocation key matching all users
+ */
+export const AllUsers = "*";
+
+function validateRevocations(
+  issues: ValidationIssue[],
+  revocations: RevocationList = {},
+  prefix: string,
+  what: string,
+) {
+  for (const k of Object.keys(revocations)) {
+    if (k !== "*" && !isPublicKey(k, prefix)) {
+      issues.push(
+        validationError(`revocation ${k} is not a valid ${what} public key`),
+      );
+    }
+  }
+}
+
+function validateExport(issues: ValidationIssue[], e: Export) {
+  if (!isValidSubject(e.subject)) {
+    issues.push(validationError(`export subject "${e.subject}" is not valid`));
+    return;
+  }
+  if (e.type !== "service" && e.type !== "stream") {
+    issues.push(
+      validationError(`export "${e.subject}" has invalid type "${e.type}"`),
+    );
+  }
+  if (e.type === "stream") {
+    if (e.response_type) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - response type only valid for services`,
+        ),
+      );
+    }
+    if (e.response_threshold) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - response threshold only valid for services`,
+        ),
+      );
+    }
+    if (e.service_latency) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - latency tracking only permitted for services`,
+        ),
+      );
+    }
+  }
+  if (e.response_threshold !== undefined && e.response_threshold < 0) {
+    issues.push(
+      validationError(
+        `export "${e.subject}" - response threshold cannot be negative`,
+      ),
+    );
+  }
+  if (e.service_latency) {
+    const { sampling, results } = e.service_latency;
+    const rate = parseInt(sampling);
+    if (
+      sampling !== "headers" && !(`${rate}%` === sampling && rate > 0 &&
+        rate <= 100)
+    ) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - latency sampling "${sampling}" must be "headers" or between 1% and 100%`,
+        ),
+      );
+    }
+    if (!isValidSubject(results, false)) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - latency results subject "${results}" is not valid`,
+        ),
+      );
+    }
+  }
+  if (e.account_token_position) {
+    const tokens = e.subject.split(".");
+    const pos = e.account_token_position;
+    if (!e.token_req) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - account token position can only be used with token_req`,
+        ),
+      );
+    } else if (pos < 1 || pos > tokens.length) {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - account token position ${pos} exceeds length of subject`,
+        ),
+      );
+    } else if (tokens[pos - 1] !== "*") {
+      issues.push(
+        validationError(
+          `export "${e.subject}" - account token position ${pos} matches "${
+            tokens[pos - 1]
+          }" but must match a *`,
+        ),
+      );
+    }
+  }
+  validateRevocations(issues, e.revocations, "A", "account");
+}
+
+function validateImport(
+  issues: ValidationIssue[],
+  im: Import,
+  account: string,
+) {
+  if (!im.account) {
+    issues.push(
+      validationError(`import "${im.subject}" - account is not specified`),
+    );
+  } else if (!isPublicKey(im.account, "A")) {
+    issues.push(
+      validationError(
+        `import "${im.subject}" - account ${im.account} is not a valid account public key`,
+      ),
+    );
+  } else if (im.account === account) {
+    issues.push(
+      validationError(
+        `import "${im.subject}" - account cannot import from itself`,
+      ),
+    );
+  }
+  if (!isValidSubject(im.subject)) {
+    issues.push(validationError(`import subject "${im.subject}" is not valid`));
+  }
+  if (im.type !== "service" && im.type !== "stream") {
+    issues.push(
+      validationError(`import "${im.subject}" has invalid type "${im.type}"`),
+    );
+  }
+  if (im.to) {
+    issues.push(
+      validationWarning(
+        `import "${im.subject}" - the field to has been deprecated (use local_subject instead)`,
+      ),
+    );
+    if (im.local_subject) {
+      issues.push(
+        validationError(
+          `import "${im.subject}" - local_subject and to are mutually exclusive`,
+        ),
+      );
+    }
+  }
+  if (im.local_subject && !isValidSubject(im.local_subject)) {
+    issues.push(
+      validationError(
+        `import "${im.subject}" - local subject "${im.local_subject}" is not valid`,
+      ),
+    );
+  }
+}
+
+/**
+ * Checks the account claim for semantic problems the same way the
+ * NATS JWT Go library does: invalid or overlapping exports, imports
+ * from the account itself, invalid subjects, options that don't apply
+ * to stream exports, misplaced account token positions and revocations
+ * or signing keys that are not valid keys.
+ * @param ac
+ */
+export function validateAccount(ac: ClaimsData<Account>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const nats = ac.nats ?? {};
+
+  const exports = nats.exports ?? [];
+  exports.forEach((e) => validateExport(issues, e));
+  for (let i = 0; i < exports.length; i++) {
+    for (let j = i + 1; j < exports.length; j++) {
+      const a = exports[i];
+      const b = exports[j];
+      if (
+        a.type === b.type && isValidSubject(a.subject) &&
+        isValidSubject(b.subject) &&
+        (isSubjectSubset(a.subject, b.subject) ||
+          isSubjectSubset(b.subject, a.subject))
+      ) {
+        issues.push(
+          validationError(
+            `overlapping subject namespace for "${a.subject}" and "${b.subject}"`,
+          ),
+        );
+      }
+    }
+  }
+
+  const imports = nats.imports ?? [];
+  imports.forEach((im) => validateImport(issues, im, ac.sub));
+  const seen = new Set<string>();
+  imports.forEach((im) => {
+    const local = im.local_subject || im.to || im.subject;
+    const k = `${im.type} ${local}`;
+    if (seen.has(k)) {
+      issues.push(
+        validationError(`overlapping subject namespace for "${local}"`),
+      );
+    }
+    seen.add(k);
+  });
+
+  signingKeyIds(nats.signing_keys).forEach((k) => {
+    if (!isPublicKey(k, "A")) {
+      issues.push(
+        validationError(`signing key ${k} is not a valid account public key`),
+      );
+    }
+  });
+  validateRevocations(issues, nats.revocations, "U", "user");
+  return issues;
+}
+
+/**
+ * Revokes the user, any user JWT issued at or before the specified
+ * time (seconds since the epoch) is rejected by the server.
+ * @param account - the account to modify
+ * @param user - the user key
+ * @param at - defaults to now
+ */
+export function revokeUser(
+  account: Partial<Account>,
+  user: Key,
+  at: number = nowSeconds(),
+): Partial<Account> {
+  const pk = checkKey(user, "U").getPublicKey();
+  account.revocations = account.revocations ?? {};
+  account.revocations[pk] = at;
+  return account;
+}
+
+/**
+ * Revokes all user JWTs issued at or before the specified time
+ * (seconds since the epoch)
+ * @param account - the account to modify
+ * @param before - defaults to now
+ */
+export function revokeAllUsers(
+  account: Partial<Account>,
+  before: number = nowSeconds(),
+): Partial<Account> {
+  account.revocations = account.revocations ?? {};
+  account.revocations[AllUsers] = before;
+  return account;
+}
+
+/**
+ * Removes the revocation for the user, or the revocation of all
+ * users if the user is `*`
+ * @param account - the account to modify
+ * @param user - the user key or `*`
+ */
+export function unrevokeUser(
+  account: Partial<Account>,
+  user: Key,
+): Partial<Account> {
+  const pk = user === AllUsers ? AllUsers : checkKey(user, "U").getPublicKey();
+  if (account.revocations) {
+    delete account.revocations[pk];
+  }
+  return account;
+}
+
+/**
+ * Removes revocations older than the retention window. Revocations
+ * older than the revocation of all users are also removed, as they
+ * no longer have any effect.
+ * @param account - the account to modify
+ * @param retention - window in seconds
+ * @param now - seconds since the epoch, defaults to now
+ */
+export function pruneRevocations(
+  account: Partial<Account>,
+  retention: number,
+  now: number = nowSeconds(),
+): Partial<Account> {
+  const revocations = account.revocations ?? {};
+  const all = revocations[AllUsers];
+  const cutoff = now - retention;
+  for (const [k, v] of Object.entries(revocations)) {
+    if (v < cutoff || (k !== AllUsers && all !== undefined && v <= all)) {
+      delete revocations[k];
+    }
+  }
+  return account;
+}
+
+/**
+ * Returns true if the user claim was revoked by the account the same way
+ * the nats-server evaluates it: the user is revoked if its `iat` is at or
+ * before the revocation time for its key or for all users.
+ * @param account - the account claim
+ * @param user - the user claim
+ */
+export function isRevoked(
+  account: ClaimsData<Account>,
+  user: ClaimsData<User>,
+): boolean {
+  if (!user.iat || !user.sub) {
+    return true;
+  }
+  const revocations = account.nats.revocations ?? {};
+  return [AllUsers, user.sub].some((k) => {
+    const ts = revocations[k];
+    return ts !== undefined && ts >= user.iat;
+  });
+}
+
+function findExport(
+  exporter: ClaimsData<Account>,
+  im: Import,
+): Export | undefined {
+  return (exporter.nats.exports ?? []).find((e) => {
+    return e.type === im.type && isValidSubject(e.subject) &&
+      isValidSubject(im.subject) && isSubjectSubset(im.subject, e.subject);
+  });
+}
+
+/**
+ * Checks whether the import of the importer account would be honored by the
+ * exporter account. The import must match an export of the exporter. If
+ * the export requires a token, the activation token in the import is decoded
+ * and must be issued by the exporter or one of its signing keys for the
+ * importer, be valid at the current time, match the subject and kind of the
+ * import, and not be revoked by the export. An empty list of errors means
+ * the import would be honored.
+ * @param exporter - the exporting account claim
+ * @param importer - the public key of the importing account
+ * @param im - the import in the importing account
+ * @param opts - options used to check the validity dates of the activation
+ */
+export function validateActivation(
+  exporter: ClaimsData<Account>,
+  importer: string,
+  im: Import,
+  opts: Partial<ValidationOptions> = {},
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (im.account !== exporter.sub) {
+    issues.push(
+      validationError(
+        `import account ${im.account} is not exporter ${exporter.sub}`,
+      ),
+    );
+    return issues;
+  }
+  const e = findExport(exporter, im);
+  if (!e) {
+    issues.push(
+      validationError(`no ${im.type} export matches "${im.subject}"`),
+    );
+    return issues;
+  }
+  if (e.account_token_position) {
+    const tokens = im.subject.split(".");
+    if (tokens[e.account_token_position - 1] !== importer) {
+      issues.push(
+        validationError(
+          `import "${im.subject}" doesn't have the importer account at token position ${e.account_token_position}`,
+        ),
+      );
+    }
+  }
+  if (!e.token_req) {
+    return issues;
+  }
+  if (!im.token) {
+    issues.push(
+      validationError(`export "${e.subject}" requires an activation token`),
+    );
+    return issues;
+  }
+
+  let ac: ClaimsData<Activation>;
+  try {
+    ac = decodeActivation(im.token);
+  } catch (err) {
+    issues.push(
+      validationError(
+        `activation token is not valid - ${(err as Error).message}`,
+      ),
+    );
+    return issues;
+  }
+  if (issuer(ac) !== exporter.sub || !isIssuerOf(exporter, ac.iss)) {
+    issues.push(
+      validationError(
+        `activation issuer ${ac.iss} is not the exporter or one of its signing keys`,
+      ),
+    );
+  }
+  if (ac.sub !== importer) {
+    issues.push(
+      validationError(`activation subject ${ac.sub} is not ${importer}`),
+    );
+  }
+  issues.push(...validateDates(ac, opts));
+  if (
+    !ac.nats.subject || !isValidSubject(ac.nats.subject) ||
+    !isSubjectSubset(im.subject, ac.nats.subject)
+  ) {
+    issues.push(
+      validationError(
+        `activation subject "${ac.nats.subject}" doesn't match import "${im.subject}"`,
+      ),
+    );
+  }
+  if (ac.nats.kind !== im.type) {
+    issues.push(
+      validationError(
+        `activation kind ${ac.nats.kind} doesn't match import ${im.type}`,
+      ),
+    );
+  }
+  const revocations = e.revocations ?? {};
+  if (
+    [importer, "*"].some((k) => {
+      return revocations[k] !== undefined && revocations[k] >= ac.iat;
+    })
+  ) {
+    issues.push(validationError(`activation for ${importer} was revoked`));
+  }
+  return issues;
+}
+
+export interface ActivationOptions extends ValidDates {
+  /**
+   * Number of seconds from now when the activation expires,
+   * ignored if `exp` is set
+   */
+  expiresIn: number;
+  /**
+   * The name of the activation and the import, defaults to
+   * the name of the export, or its subject if the export has no name
+   */
+  name: string;
+  /**
+   * Returns the current time in milliseconds since the epoch,
+   * defaults to Date.now
+   */
+  now: () => number;
+}
+
+/**
+ * An activation token and the import that uses it
+ */
+export interface ActivationGrant {
+  jwt: string;
+  import: Import;
+}
+
+/**
+ * Issues an activation token allowing the importer to import an export
+ * that requires a token. If the export has an `account_token_position`,
+ * the wildcard at that position is replaced by the importer's key, scoping
+ * the activation to the importer. Returns the token and an import for the
+ * importer's account claim.
+ * @param exporter - the exporting account claim
+ * @param name - the name or subject of the export
+ * @param importer - the key of the importing account
+ * @param signer - the exporter account or one of its signing keys, with
+ * its seed
+ * @param opts - activation options
+ */
+export async function issueActivation(
+  exporter: ClaimsData<Account>,
+  name: string,
+  importer: Key,
+  signer: Key,
+  opts: Partial<ActivationOptions> = {},
+): Promise<ActivationGrant> {
+  const exports = exporter.nats.exports ?? [];
+  const e = exports.find((e) => e.name === name) ??
+    exports.find((e) => e.subject === name);
+  if (!e) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `exporter ${exporter.sub} has no export named "${name}"`,
+    );
+  }
+  if (!e.token_req) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `export "${e.subject}" doesn't require an activation token`,
+    );
+  }
+  const ipk = checkKey(importer, "A").getPublicKey();
+  const skp = checkKey(signer, "A", true);
+  if (!isIssuerOf(exporter, skp.getPublicKey())) {
+    throw new JwtError(
+      JwtErrorCode.UntrustedIssuer,
+      `signer ${skp.getPublicKey()} is not exporter ${exporter.sub} or one of its signing keys`,
+    );
+  }
+
+  let subject = e.subject;
+  const pos = e.account_token_position;
+  if (pos) {
+    const tokens = tokenizeSubject(subject);
+    if (tokens[pos - 1] !== SingleWildcard) {
+      throw new JwtError(
+        JwtErrorCode.InvalidClaim,
+        `export "${e.subject}" has no wildcard at account token position ${pos}`,
+      );
+    }
+    tokens[pos - 1] = ipk;
+    subject = tokens.join(".");
+  }
+
+  let exp = opts.exp;
+  if (exp === undefined && opts.expiresIn) {
+    exp = nowSeconds(opts.now) + opts.expiresIn;
+  }
+  const n = opts.name || e.name || e.subject;
+  const self = skp.getPublicKey() === exporter.sub;
+  const jwt = await encodeActivation(
+    n,
+    ipk,
+    self ? skp : exporter.sub,
+    e.type,
+    { subject },
+    { exp, nbf: opts.nbf, signer: self ? undefined : skp },
+  );
+  return {
+    jwt,
+    import: {
+      name: n,
+      subject,
+      account: exporter.sub,
+      type: e.type,
+      token: jwt,
+    },
+  };
+}
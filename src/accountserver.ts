@@ -0,0 +1,172 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Account, ClaimsData } from "./types.ts";
+import { decodeAccount, decodeOperator } from "./jwt.ts";
+import { isIssuerOf } from "./chain.ts";
+import { isPublicKey } from "./keys.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+/**
+ * Storage for the account server, a DirStore can be used
+ */
+export interface AccountServerStore {
+  /**
+   * Returns the JWT for the account or undefined
+   */
+  load(id: string): Promise<string | undefined>;
+  /**
+   * Stores the account JWT, which was already verified
+   */
+  save(jwt: string): Promise<unknown>;
+}
+
+export interface AccountServerOptions {
+  /**
+   * The operator JWT, accounts must be issued by the operator
+   * or one of its signing keys
+   */
+  operator: string;
+  store: AccountServerStore;
+  /**
+   * The path where the API is served, defaults to `/jwt/v1`
+   */
+  prefix?: string;
+}
+
+/**
+ * A request handler compatible with the fetch API
+ */
+export type AccountServerHandler = (req: Request) => Promise<Response>;
+
+function reply(status: number, body = "", type = "text/plain"): Response {
+  return new Response(body, {
+    status,
+    headers: { "content-type": type },
+  });
+}
+
+function statusFor(err: unknown): number {
+  switch ((err as JwtError).code) {
+    case JwtErrorCode.UntrustedIssuer:
+      return 403;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * Returns a handler implementing the account server API used by the
+ * nats-server URL resolver. `GET <prefix>/accounts/<id>` returns the
+ * account JWT and `GET <prefix>/operator` the operator JWT.
+ * `POST <prefix>/accounts/<id>` stores the JWT in the body of the request
+ * if it is for the account, issued by the operator or one of its signing
+ * keys, not expired, and more recent than the stored JWT. Ids that are
+ * not account public keys are rejected before the store is accessed.
+ * The handler only uses the fetch API `Request` and `Response`, so it runs
+ * on Deno, Node.js, Bun and workers.
+ * @param opts
+ */
+export function newAccountServerHandler(
+  opts: AccountServerOptions,
+): AccountServerHandler {
+  const operator = decodeOperator(opts.operator);
+  const prefix = (opts.prefix ?? "/jwt/v1").replace(/\/+$/, "");
+  const store = opts.store;
+
+  const post = async (id: string, req: Request): Promise<Response> => {
+    const jwt = (await req.text()).trim();
+    let ac: ClaimsData<Account>;
+    try {
+      ac = decodeAccount(jwt, {});
+      if (ac.sub !== id) {
+        throw new JwtError(
+          JwtErrorCode.InvalidClaim,
+          `jwt subject ${ac.sub} doesn't match account ${id}`,
+        );
+      }
+      if (!isIssuerOf(operator, ac.iss)) {
+        throw new JwtError(
+          JwtErrorCode.UntrustedIssuer,
+          `account issuer ${ac.iss} is not operator ${operator.sub} or one of its signing keys`,
+        );
+      }
+    } catch (err) {
+      return reply(statusFor(err), (err as Error).message);
+    }
+    const current = await store.load(id);
+    if (current !== undefined) {
+      if (current === jwt) {
+        return reply(200);
+      }
+      let cc: ClaimsData<Account> | undefined;
+      try {
+        cc = decodeAccount(current);
+      } catch (_err) {
+        // an entry that cannot be decoded is replaced
+      }
+      if (cc && ac.iat <= cc.iat) {
+        return reply(
+          409,
+          `jwt iat ${ac.iat} is not newer than the stored jwt iat ${cc.iat}`,
+        );
+      }
+    }
+    await store.save(jwt);
+    return reply(200);
+  };
+
+  return async (req: Request): Promise<Response> => {
+    const path = new URL(req.url).pathname.replace(/\/+$/, "");
+    if (!path.startsWith(`${prefix}/`)) {
+      return reply(404);
+    }
+    const parts = path.substring(prefix.length + 1).split("/");
+    if (parts.length === 1 && parts[0] === "operator") {
+      return req.method === "GET"
+        ? reply(200, opts.operator, "application/jwt")
+        : reply(405);
+    }
+    if (parts.length !== 2 || parts[0] !== "accounts" || !parts[1]) {
+      return reply(404);
+    }
+    if (req.method !== "GET" && req.method !== "POST") {
+      return reply(405);
+    }
+    let id: string;
+    try {
+      id = decodeURIComponent(parts[1]);
+    } catch (_err) {
+      id = "";
+    }
+    if (!isPublicKey(id, "A")) {
+      return reply(400, `${id} is not an account public key`);
+    }
+    try {
+      switch (req.method) {
+        case "GET": {
+          const jwt = await store.load(id);
+          return jwt === undefined
+            ? reply(404)
+            : reply(200, jwt, "application/jwt");
+        }
+        case "POST":
+          return await post(id, req);
+        default:
+          return reply(405);
+      }
+    } catch (err) {
+      return reply(500, (err as Error).message);
+    }
+  };
+}
@@ -0,0 +1,303 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  AuthorizationRequest,
+  AuthorizationResponse,
+  ClaimsData,
+  Generic,
+  User,
+} from "./types.ts";
+import { Types } from "./types.ts";
+import {
+  Algorithms,
+  decode,
+  decodeUser,
+  encode,
+  encodeAuthorizationResponse,
+  encodeUser,
+} from "./jwt.ts";
+import type { EncodingOptions, UserEncodingOptions } from "./jwt.ts";
+import { checkKey } from "./keys.ts";
+import type { Key } from "./keys.ts";
+import type { ValidationOptions } from "./validate.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+import { extend } from "./util.ts";
+
+/**
+ * The audience of authorization requests sent by the nats-server
+ */
+export const AuthorizationRequestAudience = "nats-authorization-request";
+
+/**
+ * Header set by the nats-server with its public curve key
+ * when the authorization request is encrypted
+ */
+export const ServerXkeyHeader = "Nats-Server-Xkey";
+
+export interface AuthorizationRequestOptions extends ValidationOptions {
+  /**
+   * The curve key of the callout service, required to open encrypted
+   * requests. The public key is the `xkey` in the account's authorization.
+   */
+  xkey: Key;
+  /**
+   * The public curve key of the server that encrypted the request,
+   * sent by the server in the `Nats-Server-Xkey` header
+   */
+  serverXkey: string;
+}
+
+/**
+ * Generates an authorization request JWT as sent by the nats-server, mainly
+ * useful for testing callout services. The request is signed by the server.
+ * @param user - the user nkey of the client connecting
+ * @param server - the key of the server
+ * @param data - the request
+ * @param opts - encoding options
+ */
+export async function encodeAuthorizationRequest(
+  user: Key,
+  server: Key,
+  data: Partial<AuthorizationRequest>,
+  opts: Partial<EncodingOptions> = {},
+): Promise<string> {
+  user = checkKey(user, "U", false);
+  server = checkKey(server, "N", true);
+  const { exp, nbf } = opts;
+  const claim = extend({}, { exp, nbf }) as ClaimsData<Generic>;
+  claim.sub = user.getPublicKey();
+  claim.aud = AuthorizationRequestAudience;
+  claim.nats = extend({}, data, {
+    user_nkey: user.getPublicKey(),
+    type: Types.AuthorizationRequest,
+  }) as Generic;
+  return await encode(Algorithms.v2, claim, server);
+}
+
+/**
+ * Decodes an authorization request sent by the nats-server to an auth
+ * callout service. The request must be signed by a server (`N`) key, have
+ * the authorization request audience and type, be for the `user_nkey`
+ * in the request, and identify the server in its `server_id`. The validity
+ * dates of the request are always checked. If the request is encrypted, the
+ * `xkey` of the service and the `serverXkey` that sealed it must be provided.
+ * @param data - the request JWT or the bytes of the message
+ * @param opts - decryption and validation options
+ */
+export function decodeAuthorizationRequest(
+  data: string | Uint8Array,
+  opts: Partial<AuthorizationRequestOptions> = {},
+): ClaimsData<AuthorizationRequest> {
+  let bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const { xkey, serverXkey, ...vopts } = opts;
+  if (xkey) {
+    if (!serverXkey) {
+      throw new JwtError(
+        JwtErrorCode.InvalidEncryption,
+        "the server xkey is required to open the request",
+      );
+    }
+    const xkp = checkKey(xkey, "X", true);
+    let opened: Uint8Array | null = null;
+    try {
+      opened = xkp.open(bytes, serverXkey);
+    } catch (err) {
+      throw new JwtError(
+        JwtErrorCode.InvalidEncryption,
+        "unable to open the request",
+        { cause: err },
+      );
+    }
+    if (!opened) {
+      throw new JwtError(
+        JwtErrorCode.InvalidEncryption,
+        "unable to open the request",
+      );
+    }
+    bytes = opened;
+  }
+
+  const jwt = new TextDecoder().decode(bytes);
+  const c = decode<AuthorizationRequest>(jwt, vopts);
+  if (c.nats.type !== Types.AuthorizationRequest) {
+    throw new JwtError(
+      JwtErrorCode.UnexpectedClaimType,
+      `unexpected claim type ${c.nats.type} - wanted ${Types.AuthorizationRequest}`,
+    );
+  }
+  if (c.aud !== AuthorizationRequestAudience) {
+    throw new JwtError(
+      JwtErrorCode.InvalidAudience,
+      `unexpected audience ${c.aud} - wanted ${AuthorizationRequestAudience}`,
+    );
+  }
+  checkKey(c.iss, "N");
+  checkKey(c.sub, "U");
+  if (c.sub !== c.nats.user_nkey) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `request subject ${c.sub} doesn't match user_nkey ${c.nats.user_nkey}`,
+    );
+  }
+  if (!c.nats.server_id?.id) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      "request doesn't have a server_id",
+    );
+  }
+  if (xkey && c.nats.server_id.xkey !== serverXkey) {
+    throw new JwtError(
+      JwtErrorCode.InvalidEncryption,
+      `request was sealed by ${serverXkey} but server xkey is ${c.nats.server_id?.xkey}`,
+    );
+  }
+  return c;
+}
+
+/**
+ * The result of authorizing a request. A `jwt` is a user JWT that was
+ * already encoded, a `user` is encoded by the responder for the user in
+ * the request, and an `error` denies the request.
+ */
+export type AuthorizationDecision =
+  | { jwt: string }
+  | {
+    user: Partial<User>;
+    name?: string;
+    issuer?: Key;
+    opts?: Partial<UserEncodingOptions>;
+  }
+  | { error: string };
+
+export type AuthorizationCallback = (
+  req: ClaimsData<AuthorizationRequest>,
+) => Promise<AuthorizationDecision> | AuthorizationDecision;
+
+export interface AuthorizationResponderOptions {
+  /**
+   * The account signing the responses, and the default issuer of users
+   */
+  issuer: Key;
+  /**
+   * Optional signing key of the issuer account
+   */
+  signer?: Key;
+  /**
+   * The curve key of the service, required if the server encrypts requests
+   */
+  xkey?: Key;
+  /**
+   * Accounts other than the issuer that users can be placed in, these
+   * should match the `allowed_accounts` of the server's auth callout
+   */
+  allowedAccounts?: string[];
+}
+
+/**
+ * A function that processes the bytes of an authorization request and
+ * returns the bytes of the response that should be sent to the server.
+ * If the request was encrypted, the `Nats-Server-Xkey` header value must
+ * be provided.
+ */
+export type AuthorizationResponder = (
+  data: Uint8Array,
+  serverXkey?: string,
+) => Promise<Uint8Array>;
+
+/**
+ * Returns a responder for an auth callout service. The responder decodes
+ * and verifies the request, invokes the callback, and wraps its decision
+ * in an authorization response for the user nkey and server in the request.
+ * If the callback returns a user, it is encoded for the `user_nkey` of the
+ * request. If it returns a user JWT, the JWT must be for the `user_nkey`.
+ * In both cases the user must be issued by the issuer account or one of
+ * the allowed accounts, otherwise the response is an error. Errors thrown
+ * by the callback deny the request. If the server encrypted the request,
+ * the response is encrypted for the server's xkey.
+ * The responder is not tied to a transport, the caller is responsible for
+ * receiving requests and sending the responses.
+ * @param opts
+ * @param cb
+ */
+export function newAuthorizationResponder(
+  opts: AuthorizationResponderOptions,
+  cb: AuthorizationCallback,
+): AuthorizationResponder {
+  const issuer = checkKey(opts.issuer, "A", !opts.signer);
+  const signer = opts.signer ? checkKey(opts.signer, "A", true) : undefined;
+  const xkp = opts.xkey ? checkKey(opts.xkey, "X", true) : undefined;
+  const accounts = [issuer.getPublicKey(), ...(opts.allowedAccounts ?? [])];
+  const checkAccount = (account: string) => {
+    if (!accounts.includes(account)) {
+      throw new JwtError(
+        JwtErrorCode.UntrustedIssuer,
+        `user issuer account ${account} is not ${issuer.getPublicKey()} or an allowed account`,
+      );
+    }
+  };
+
+  return async (data: Uint8Array, serverXkey?: string) => {
+    const encrypted = xkp !== undefined && serverXkey !== undefined;
+    const rc = decodeAuthorizationRequest(
+      data,
+      encrypted ? { xkey: xkp, serverXkey } : {},
+    );
+    const response: Partial<AuthorizationResponse> = {};
+    try {
+      const d = await cb(rc);
+      if ("error" in d) {
+        response.error = d.error;
+      } else if ("jwt" in d) {
+        const uc = decodeUser(d.jwt);
+        if (uc.sub !== rc.nats.user_nkey) {
+          throw new JwtError(
+            JwtErrorCode.InvalidClaim,
+            `user jwt subject ${uc.sub} doesn't match user_nkey ${rc.nats.user_nkey}`,
+          );
+        }
+        checkAccount(uc.nats.issuer_account ?? uc.iss);
+        response.jwt = d.jwt;
+      } else {
+        checkAccount(checkKey(d.issuer ?? issuer, "A").getPublicKey());
+        const uopts = extend({}, d.opts ?? {}) as Partial<UserEncodingOptions>;
+        if (!d.issuer && signer) {
+          uopts.signer = uopts.signer ?? signer;
+        }
+        response.jwt = await encodeUser(
+          d.name ?? rc.nats.connect_opts?.user ?? rc.nats.user_nkey!,
+          rc.nats.user_nkey!,
+          d.issuer ?? issuer,
+          d.user,
+          uopts,
+        );
+      }
+    } catch (err) {
+      response.error = (err as Error).message;
+    }
+
+    const token = await encodeAuthorizationResponse(
+      rc.nats.user_nkey!,
+      rc.nats.server_id!.id,
+      issuer,
+      response,
+      { signer },
+    );
+    const out = new TextEncoder().encode(token);
+    const sxkey = rc.nats.server_id?.xkey;
+    if (encrypted && sxkey) {
+      return xkp.seal(out, sxkey);
+    }
+    return out;
+  };
+}
@@ -0,0 +1,647 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  Account,
+  ClaimsData,
+  ConnectionType,
+  Export,
+  GenericFields,
+  Import,
+  JetStreamLimits,
+  NatsLimits,
+  Operator,
+  OperatorLimits,
+  Permission,
+  User,
+  UserPermissionsLimits,
+} from "./types.ts";
+import type { Key } from "./keys.ts";
+import { checkKey, isPublicKey } from "./keys.ts";
+import type { EncodingOptions } from "./jwt.ts";
+import {
+  encodeAccount,
+  encodeOperator,
+  encodeUser,
+  newScopedSigner,
+} from "./jwt.ts";
+import type { ValidationIssue } from "./validate.ts";
+import { checkIssues, validationError } from "./validate.ts";
+import { nowSeconds } from "./util.ts";
+import { revokeUser, validateAccount } from "./account.ts";
+import { normalizeConnectionTypes, validateUserLimits } from "./limits.ts";
+import { isValidSubject } from "./subject.ts";
+
+function toSeconds(d: Date | number): number {
+  return d instanceof Date ? Math.floor(d.getTime() / 1000) : d;
+}
+
+/**
+ * Base of the claim builders, keeps the contents of the claim and the
+ * dates and audience used when encoding it. Every change to the contents
+ * is validated, if the change makes the claim invalid it is reverted and
+ * a JwtError is thrown.
+ */
+export abstract class ClaimBuilder<T extends GenericFields> {
+  protected name: string;
+  protected nats: Partial<T>;
+  protected opts: Partial<EncodingOptions>;
+
+  constructor(name: string, nats: Partial<T> = {}) {
+    this.name = name;
+    this.nats = nats;
+    this.opts = {};
+  }
+
+  protected abstract kind(): string;
+
+  protected abstract validate(): ValidationIssue[];
+
+  protected update(fn: (nats: Partial<T>) => void): this {
+    const saved = JSON.parse(JSON.stringify(this.nats));
+    try {
+      fn(this.nats);
+      checkIssues(this.kind(), this.validate());
+    } catch (err) {
+      this.nats = saved;
+      throw err;
+    }
+    return this;
+  }
+
+  /**
+   * Expires the claim the specified number of seconds from now
+   * @param seconds
+   */
+  expiresIn(seconds: number): this {
+    this.opts.exp = nowSeconds() + seconds;
+    return this;
+  }
+
+  /**
+   * Expires the claim at the specified date or seconds since the epoch
+   * @param exp
+   */
+  expiresAt(exp: Date | number): this {
+    this.opts.exp = toSeconds(exp);
+    return this;
+  }
+
+  /**
+   * Makes the claim valid starting at the specified date or seconds
+   * since the epoch
+   * @param nbf
+   */
+  notBefore(nbf: Date | number): this {
+    this.opts.nbf = toSeconds(nbf);
+    return this;
+  }
+
+  /**
+   * Sets the audience of the claim
+   * @param aud
+   */
+  audience(aud: string): this {
+    this.opts.aud = aud;
+    return this;
+  }
+
+  /**
+   * Adds tags to the claim, tags are lower-cased and not repeated
+   * @param tags
+   */
+  addTags(...tags: string[]): this {
+    return this.update((nats: Partial<GenericFields>) => {
+      const v = nats.tags ?? [];
+      tags.map((t) => t.trim().toLowerCase()).forEach((t) => {
+        if (t.length > 0 && !v.includes(t)) {
+          v.push(t);
+        }
+      });
+      nats.tags = v;
+    });
+  }
+
+  /**
+   * Returns a copy of the contents of the claim
+   */
+  build(): Partial<T> {
+    return JSON.parse(JSON.stringify(this.nats));
+  }
+}
+
+/**
+ * Builds and signs operator JWTs, the output is the same as
+ * `encodeOperator()` with the built contents.
+ */
+export class OperatorBuilder extends ClaimBuilder<Operator> {
+  key: Key;
+
+  /**
+   * @param name - the operator name
+   * @param key - the operator key, a seed is only required if the
+   * operator signs its own JWT
+   */
+  constructor(name: string, key: Key) {
+    super(name);
+    this.key = checkKey(key, "O");
+  }
+
+  protected kind(): string {
+    return "operator";
+  }
+
+  protected validate(): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const nats = this.nats;
+    (nats.signing_keys ?? []).forEach((k) => {
+      if (typeof k !== "string" || !isPublicKey(k, "O")) {
+        issues.push(
+          validationError(
+            `signing key ${JSON.stringify(k)} is not an operator key`,
+          ),
+        );
+      }
+    });
+    if (nats.system_account && !isPublicKey(nats.system_account, "A")) {
+      issues.push(
+        validationError(
+          `system account ${nats.system_account} is not an account key`,
+        ),
+      );
+    }
+    if (nats.account_server_url) {
+      try {
+        new URL(nats.account_server_url);
+      } catch (_err) {
+        issues.push(
+          validationError(
+            `account server url "${nats.account_server_url}" is not valid`,
+          ),
+        );
+      }
+    }
+    (nats.operator_service_urls ?? []).forEach((u) => {
+      let protocol = "";
+      try {
+        protocol = new URL(u).protocol;
+      } catch (_err) {
+        // reported below
+      }
+      if (protocol !== "nats:" && protocol !== "tls:") {
+        issues.push(
+          validationError(
+            `operator service url "${u}" must be a nats or tls url`,
+          ),
+        );
+      }
+    });
+    return issues;
+  }
+
+  /**
+   * Adds a signing key to the operator
+   * @param key - an operator key
+   */
+  addSigningKey(key: Key): this {
+    const pk = checkKey(key, "O").getPublicKey();
+    return this.update((nats) => {
+      const keys = nats.signing_keys ?? [];
+      if (!keys.includes(pk)) {
+        keys.push(pk);
+      }
+      nats.signing_keys = keys;
+    });
+  }
+
+  /**
+   * Sets the system account of the operator
+   * @param key - an account key
+   */
+  setSystemAccount(key: Key): this {
+    const pk = checkKey(key, "A").getPublicKey();
+    return this.update((nats) => {
+      nats.system_account = pk;
+    });
+  }
+
+  /**
+   * Sets the URL of the account server
+   * @param url
+   */
+  setAccountServerUrl(url: string): this {
+    return this.update((nats) => {
+      nats.account_server_url = url;
+    });
+  }
+
+  /**
+   * Adds a `nats://` or `tls://` URL of a server for the operator
+   * @param url
+   */
+  addServiceUrl(url: string): this {
+    return this.update((nats) => {
+      const urls = nats.operator_service_urls ?? [];
+      if (!urls.includes(url)) {
+        urls.push(url);
+      }
+      nats.operator_service_urls = urls;
+    });
+  }
+
+  /**
+   * Generates the operator JWT
+   * @param signer - the operator or one of its signing keys, defaults
+   * to the operator key
+   */
+  async sign(signer?: Key): Promise<string> {
+    return await encodeOperator(this.name, this.key, this.build(), {
+      ...this.opts,
+      signer,
+    });
+  }
+}
+
+/**
+ * Builds and signs account JWTs, the output is the same as
+ * `encodeAccount()` with the built contents. Changes are validated with
+ * `validateAccount()`.
+ */
+export class AccountBuilder extends ClaimBuilder<Account> {
+  key: Key;
+
+  /**
+   * @param name - the account name
+   * @param key - the account key, a seed is only required if the
+   * account signs its own JWT
+   */
+  constructor(name: string, key: Key) {
+    super(name);
+    this.key = checkKey(key, "A");
+  }
+
+  protected kind(): string {
+    return "account";
+  }
+
+  protected validate(): ValidationIssue[] {
+    const claim = {
+      sub: checkKey(this.key).getPublicKey(),
+      nats: this.nats,
+    } as ClaimsData<Account>;
+    const issues = validateAccount(claim);
+    const limits = this.nats.limits ?? {};
+    const tiers = Object.keys(limits.tiered_limits ?? {});
+    const js = ["mem_storage", "disk_storage", "streams", "consumer"].some(
+      (k) => {
+        const v = limits[k as keyof OperatorLimits];
+        return typeof v === "number" && v !== 0;
+      },
+    );
+    if (tiers.length > 0 && js) {
+      issues.push(
+        validationError(
+          "JetStream limits and tiered JetStream limits are exclusive",
+        ),
+      );
+    }
+    return issues;
+  }
+
+  /**
+   * Adds an export to the account, if not specified the name of the
+   * export is its subject
+   * @param e
+   */
+  addExport(e: Partial<Export> & Pick<Export, "subject" | "type">): this {
+    return this.update((nats) => {
+      nats.exports = nats.exports ?? [];
+      nats.exports.push(Object.assign({ name: e.subject }, e));
+    });
+  }
+
+  /**
+   * Adds an import to the account, if not specified the name of the
+   * import is its subject
+   * @param im
+   */
+  addImport(
+    im: Partial<Import> & Pick<Import, "subject" | "type" | "account">,
+  ): this {
+    return this.update((nats) => {
+      nats.imports = nats.imports ?? [];
+      nats.imports.push(Object.assign({ name: im.subject }, im));
+    });
+  }
+
+  /**
+   * Sets the account limits, the specified values are merged with
+   * the current limits
+   * @param limits
+   */
+  setLimits(limits: Partial<OperatorLimits>): this {
+    return this.update((nats) => {
+      nats.limits = Object.assign(nats.limits ?? {}, limits);
+    });
+  }
+
+  /**
+   * Sets the JetStream limits for streams with the specified replicas
+   * @param tier
+   * @param limits
+   */
+  setJetStreamTier(tier: "R1" | "R3", limits: Partial<JetStreamLimits>): this {
+    return this.update((nats) => {
+      nats.limits = nats.limits ?? {};
+      nats.limits.tiered_limits = nats.limits.tiered_limits ?? {};
+      nats.limits.tiered_limits[tier] = limits;
+    });
+  }
+
+  /**
+   * Adds a signing key to the account
+   * @param key - an account key
+   */
+  addSigningKey(key: Key): this {
+    const pk = checkKey(key, "A").getPublicKey();
+    return this.update((nats) => {
+      const keys = nats.signing_keys ?? [];
+      if (!keys.some((k) => (typeof k === "string" ? k : k.key) === pk)) {
+        keys.push(pk);
+      }
+      nats.signing_keys = keys;
+    });
+  }
+
+  /**
+   * Adds a scoped signing key to the account, users issued by the key
+   * get the permissions and limits of the template
+   * @param key - an account key
+   * @param role - the name of the scope
+   * @param template - the permissions and limits of the users
+   */
+  addScopedSigningKey(
+    key: Key,
+    role: string,
+    template: Partial<UserPermissionsLimits> = {},
+  ): this {
+    const sk = newScopedSigner(key, role, template);
+    return this.update((nats) => {
+      const keys = (nats.signing_keys ?? []).filter((k) => {
+        return (typeof k === "string" ? k : k.key) !== sk.key;
+      });
+      keys.push(sk);
+      nats.signing_keys = keys;
+    });
+  }
+
+  /**
+   * Revokes user JWTs issued at or before the specified time
+   * @param user - the user key
+   * @param at - seconds since the epoch, defaults to now
+   */
+  revokeUser(user: Key, at?: number): this {
+    return this.update((nats) => {
+      revokeUser(nats, user, at);
+    });
+  }
+
+  /**
+   * Generates the account JWT, the account is validated with
+   * `validateAccount()` before it is encoded
+   * @param signer - the operator or one of its signing keys, or
+   * the account if self-signed
+   */
+  async sign(signer: Key): Promise<string> {
+    return await encodeAccount(this.name, this.key, this.build(), {
+      ...this.opts,
+      signer,
+      strict: true,
+    });
+  }
+}
+
+/**
+ * Builds and signs user JWTs, the output is the same as `encodeUser()`
+ * with the built contents. Subjects, source networks, time ranges,
+ * locale and connection types are validated as they are added.
+ */
+export class UserBuilder extends ClaimBuilder<User> {
+  key: Key;
+  scoped: boolean;
+
+  /**
+   * @param name - the user name
+   * @param key - the user key
+   */
+  constructor(name: string, key: Key) {
+    super(name);
+    this.key = checkKey(key, "U");
+    this.scoped = false;
+  }
+
+  protected kind(): string {
+    return "user";
+  }
+
+  protected validate(): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const check = (p: Partial<Permission> = {}, queues: boolean) => {
+      [...p.allow ?? [], ...p.deny ?? []].forEach((s) => {
+        const parts = s.trim().split(/\s+/);
+        if (
+          !isValidSubject(parts[0]) || parts.length > (queues ? 2 : 1)
+        ) {
+          issues.push(
+            validationError(`permission subject "${s}" is not valid`),
+          );
+        }
+      });
+    };
+    check(this.nats.pub, false);
+    check(this.nats.sub, true);
+    if (
+      this.scoped &&
+      [this.nats.pub, this.nats.sub, this.nats.resp].some((v) =>
+        v !== undefined
+      )
+    ) {
+      issues.push(validationError("scoped users cannot have permissions"));
+    }
+    issues.push(...validateUserLimits(this.nats));
+    return issues;
+  }
+
+  private permission(
+    kind: "pub" | "sub",
+    list: "allow" | "deny",
+    subjects: string[],
+  ): this {
+    return this.update((nats) => {
+      const p = nats[kind] ?? {};
+      const v = p[list] ?? [];
+      subjects.forEach((s) => {
+        if (!v.includes(s)) {
+          v.push(s);
+        }
+      });
+      p[list] = v;
+      nats[kind] = p;
+    });
+  }
+
+  /**
+   * Marks the user as issued by a scoped signing key, the permissions
+   * and limits of the user are set by the signing key
+   */
+  scope(): this {
+    this.scoped = true;
+    try {
+      checkIssues(this.kind(), this.validate());
+    } catch (err) {
+      this.scoped = false;
+      throw err;
+    }
+    return this;
+  }
+
+  /**
+   * Allows publishing to the subjects
+   * @param subjects
+   */
+  allowPub(...subjects: string[]): this {
+    return this.permission("pub", "allow", subjects);
+  }
+
+  /**
+   * Denies publishing to the subjects
+   * @param subjects
+   */
+  denyPub(...subjects: string[]): this {
+    return this.permission("pub", "deny", subjects);
+  }
+
+  /**
+   * Allows subscribing to the subjects, entries in the form of
+   * `subject queue` only apply to queue subscriptions
+   * @param subjects
+   */
+  allowSub(...subjects: string[]): this {
+    return this.permission("sub", "allow", subjects);
+  }
+
+  /**
+   * Denies subscribing to the subjects, entries in the form of
+   * `subject queue` only apply to queue subscriptions
+   * @param subjects
+   */
+  denySub(...subjects: string[]): this {
+    return this.permission("sub", "deny", subjects);
+  }
+
+  /**
+   * Allows publishing responses to requests received by the user
+   * @param max - the number of responses allowed per request
+   * @param ttl - the time in nanoseconds the responses are allowed
+   */
+  allowResponses(max = 1, ttl = 0): this {
+    return this.update((nats) => {
+      nats.resp = { max, ttl };
+    });
+  }
+
+  /**
+   * Sets the data, payload and subscription limits, the specified
+   * values are merged with the current limits
+   * @param limits
+   */
+  setLimits(limits: Partial<NatsLimits>): this {
+    return this.update((nats) => {
+      Object.assign(nats, limits);
+    });
+  }
+
+  /**
+   * Restricts the networks the user can connect from
+   * @param cidrs - networks in CIDR notation
+   */
+  addSourceNetwork(...cidrs: string[]): this {
+    return this.update((nats) => {
+      nats.src = [...nats.src ?? [], ...cidrs];
+    });
+  }
+
+  /**
+   * Restricts the times the user can connect
+   * @param start - time in HH:MM:SS format
+   * @param end - time in HH:MM:SS format
+   */
+  addTimeRange(start: string, end: string): this {
+    return this.update((nats) => {
+      nats.times = [...nats.times ?? [], { start, end }];
+    });
+  }
+
+  /**
+   * Sets the time zone used for the time ranges
+   * @param locale - an IANA time zone
+   */
+  setLocale(locale: string): this {
+    return this.update((nats) => {
+      nats.locale = locale;
+    });
+  }
+
+  /**
+   * Restricts the kind of connections the user can make
+   * @param types
+   */
+  allowConnectionTypes(...types: ConnectionType[]): this {
+    return this.update((nats) => {
+      nats.allowed_connection_types = normalizeConnectionTypes([
+        ...nats.allowed_connection_types ?? [],
+        ...types,
+      ]);
+    });
+  }
+
+  /**
+   * Allows the user to connect without proving possession of its key
+   * @param tf
+   */
+  bearerToken(tf = true): this {
+    return this.update((nats) => {
+      nats.bearer_token = tf;
+    });
+  }
+
+  /**
+   * Generates the user JWT
+   * @param signer - the account or one of its signing keys
+   * @param account - the account issuing the user, required if the
+   * signer is a signing key
+   */
+  async sign(signer: Key, account?: Key): Promise<string> {
+    return await encodeUser(
+      this.name,
+      this.key,
+      account ?? signer,
+      this.build(),
+      {
+        ...this.opts,
+        signer: account ? signer : undefined,
+        scopedUser: this.scoped,
+      },
+    );
+  }
+}
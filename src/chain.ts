@@ -0,0 +1,111 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  Account,
+  ClaimsData,
+  Operator,
+  SigningKeys,
+  User,
+} from "./types.ts";
+import { decodeAccount, decodeOperator, decodeUser } from "./jwt.ts";
+import { isRevoked } from "./account.ts";
+import type { ValidationOptions } from "./validate.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+export interface Chain {
+  user: ClaimsData<User>;
+  account: ClaimsData<Account>;
+  operator: ClaimsData<Operator>;
+}
+
+/**
+ * Returns the public keys of the specified signing keys, these can
+ * be either a public key or a scoped signing key
+ * @param keys
+ */
+export function signingKeyIds(keys: SigningKeys = []): string[] {
+  return keys.map((k) => typeof k === "string" ? k : k.key);
+}
+
+/**
+ * Returns true if the specified key is the subject of the claim
+ * or one of its signing keys
+ * @param c
+ * @param key
+ */
+export function isIssuerOf(
+  c: ClaimsData<Account> | ClaimsData<Operator>,
+  key: string,
+): boolean {
+  return c.sub === key || signingKeyIds(c.nats.signing_keys).includes(key);
+}
+
+/**
+ * Verifies the chain of trust of a user the way the nats-server does:
+ * the user must be issued by the account or one of its signing keys,
+ * and the account must be issued by one of the trusted operators or
+ * one of their signing keys. Each JWT is decoded, its signature verified
+ * and its validity dates checked, and the user must not be revoked by
+ * the account.
+ * @param user - the user JWT
+ * @param account - the account JWT for the user
+ * @param operators - the trusted operator JWTs
+ * @param opts - validation options
+ */
+export function verifyChain(
+  user: string,
+  account: string,
+  operators: string[],
+  opts: Partial<ValidationOptions> = {},
+): Chain {
+  const uc = decodeUser(user, opts);
+  const ac = decodeAccount(account, opts);
+  const ocs = operators.map((o) => decodeOperator(o, opts));
+
+  if (uc.nats.issuer_account) {
+    if (uc.nats.issuer_account !== ac.sub) {
+      throw new JwtError(
+        JwtErrorCode.UntrustedIssuer,
+        `user issuer_account ${uc.nats.issuer_account} doesn't match account ${ac.sub}`,
+      );
+    }
+    if (!isIssuerOf(ac, uc.iss)) {
+      throw new JwtError(
+        JwtErrorCode.UntrustedIssuer,
+        `user issuer ${uc.iss} is not a signing key of account ${ac.sub}`,
+      );
+    }
+  } else if (uc.iss !== ac.sub) {
+    throw new JwtError(
+      JwtErrorCode.UntrustedIssuer,
+      `user issuer ${uc.iss} doesn't match account ${ac.sub}`,
+    );
+  }
+
+  if (isRevoked(ac, uc)) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `user ${uc.sub} was revoked by account ${ac.sub}`,
+    );
+  }
+
+  const oc = ocs.find((oc) => isIssuerOf(oc, ac.iss));
+  if (!oc) {
+    throw new JwtError(
+      JwtErrorCode.UntrustedIssuer,
+      `account issuer ${ac.iss} is not a trusted operator or operator signing key`,
+    );
+  }
+  return { user: uc, account: ac, operator: oc };
+}
@@ -0,0 +1,132 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Account, ClaimsData } from "./types.ts";
+import { decode } from "./jwt.ts";
+import { isAccount } from "./util.ts";
+
+/**
+ * A difference between two claims. The path is the location of the value
+ * in the claim, such as `nats.limits.conn`. Items in arrays are identified
+ * by their contents, for example `nats.exports[service q.>]`, and items
+ * added or removed from an array are reported with the path of the array.
+ */
+export interface ClaimChange {
+  kind: "added" | "removed" | "changed";
+  path: string;
+  old?: unknown;
+  new?: unknown;
+}
+
+type Obj = Record<string, unknown>;
+
+function isObject(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// identifies items in arrays so that they can be matched regardless of
+// their position, signing keys by their key, imports and exports by
+// their account, type and subject, anything else by its value
+function identity(v: unknown): string {
+  if (isObject(v)) {
+    if (typeof v.key === "string") {
+      return v.key;
+    }
+    if (typeof v.subject === "string") {
+      return [v.account, v.type, v.subject].filter((p) => p).join(" ");
+    }
+  }
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+function compare(
+  changes: ClaimChange[],
+  path: string,
+  a: unknown,
+  b: unknown,
+) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    compareArrays(changes, path, a, b);
+  } else if (isObject(a) && isObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    keys.forEach((k) => {
+      const p = path ? `${path}.${k}` : k;
+      if (!(k in b) || b[k] === undefined) {
+        if (a[k] !== undefined) {
+          changes.push({ kind: "removed", path: p, old: a[k] });
+        }
+      } else if (!(k in a) || a[k] === undefined) {
+        changes.push({ kind: "added", path: p, new: b[k] });
+      } else {
+        compare(changes, p, a[k], b[k]);
+      }
+    });
+  } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+    changes.push({ kind: "changed", path, old: a, new: b });
+  }
+}
+
+function compareArrays(
+  changes: ClaimChange[],
+  path: string,
+  a: unknown[],
+  b: unknown[],
+) {
+  const unmatched = b.slice();
+  a.forEach((v) => {
+    const id = identity(v);
+    const idx = unmatched.findIndex((o) => identity(o) === id);
+    if (idx === -1) {
+      changes.push({ kind: "removed", path, old: v });
+    } else {
+      compare(changes, `${path}[${id}]`, v, unmatched[idx]);
+      unmatched.splice(idx, 1);
+    }
+  });
+  unmatched.forEach((v) => {
+    changes.push({ kind: "added", path, new: v });
+  });
+}
+
+// returns a copy of the claim without the iat and jti, which differ on
+// every JWT, and with the activation tokens in the imports decoded
+function normalize(c: string | ClaimsData<unknown>): Obj {
+  const claim = typeof c === "string" ? decode(c) : c;
+  const { iat: _iat, jti: _jti, ...rest } = JSON.parse(JSON.stringify(claim));
+  if (isAccount(claim)) {
+    const ac = rest as ClaimsData<Account>;
+    (ac.nats.imports ?? []).forEach((im) => {
+      if (im.token) {
+        Object.assign(im, { token: normalize(im.token) });
+      }
+    });
+  }
+  return rest;
+}
+
+/**
+ * Returns the differences between two claims, ignoring the `iat` and `jti`
+ * which are different on every JWT. Activation tokens in imports are
+ * decoded and compared by their contents. An empty list means the claims
+ * are equivalent.
+ * @param a - the original JWT or claim
+ * @param b - the updated JWT or claim
+ */
+export function diff(
+  a: string | ClaimsData<unknown>,
+  b: string | ClaimsData<unknown>,
+): ClaimChange[] {
+  const changes: ClaimChange[] = [];
+  compare(changes, "", normalize(a), normalize(b));
+  return changes;
+}
@@ -0,0 +1,252 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Account, ClaimsData, Operator } from "./types.ts";
+import { decodeAccount, decodeOperator } from "./jwt.ts";
+import { isIssuerOf } from "./chain.ts";
+import type { FileSystem } from "./fs.ts";
+import { joinPath } from "./fs.ts";
+import { isPublicKey } from "./keys.ts";
+import type { ValidationOptions } from "./validate.ts";
+import { validateDates } from "./validate.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+const jwtExt = ".jwt";
+
+export interface DirStoreOptions {
+  /**
+   * The operator JWTs trusted to issue the accounts, if not specified
+   * the issuer of the accounts is not checked
+   */
+  operators: string[];
+  /**
+   * Accounts issued more than the specified number of seconds ago are
+   * reported as stale, if not specified, entries are not stale
+   */
+  maxAge: number;
+  /**
+   * Returns the current time in milliseconds since the epoch,
+   * defaults to Date.now
+   */
+  now: () => number;
+}
+
+/**
+ * A problem with an entry of the store. Entries that cannot be decoded,
+ * are not stored under their subject, or are not issued by a trusted
+ * operator are `invalid`.
+ */
+export interface DirStoreIssue {
+  id: string;
+  kind: "invalid" | "expired" | "stale";
+  description: string;
+}
+
+/**
+ * Reads and writes the account JWTs in the directory used by the
+ * nats-server full resolver (`resolver: { type: full, dir: ... }`),
+ * where each account is stored in a `<account>.jwt` file.
+ */
+export interface DirStore {
+  /**
+   * Returns the ids of the accounts in the store
+   */
+  list(): Promise<string[]>;
+  /**
+   * Returns the JWT stored for the account or undefined
+   * @param id - the account id
+   */
+  load(id: string): Promise<string | undefined>;
+  /**
+   * Returns the decoded claim of the account or undefined, the JWT must
+   * be stored under its subject and issued by one of the trusted operators
+   * @param id - the account id
+   * @param opts - if specified the dates of the claim are validated
+   */
+  get(
+    id: string,
+    opts?: Partial<ValidationOptions>,
+  ): Promise<ClaimsData<Account> | undefined>;
+  /**
+   * Stores the account JWT if it is newer than the stored JWT. Returns
+   * true if the JWT was written
+   * @param jwt
+   */
+  save(jwt: string): Promise<boolean>;
+  /**
+   * Removes the account from the store
+   * @param id - the account id
+   */
+  remove(id: string): Promise<void>;
+  /**
+   * Returns the entries that are invalid, expired or stale
+   */
+  check(): Promise<DirStoreIssue[]>;
+}
+
+class DirStoreImpl implements DirStore {
+  fs: FileSystem;
+  dir: string;
+  operators: ClaimsData<Operator>[];
+  maxAge: number;
+  now: () => number;
+
+  constructor(fs: FileSystem, dir: string, opts: Partial<DirStoreOptions>) {
+    this.fs = fs;
+    this.dir = dir;
+    this.operators = (opts.operators ?? []).map((o) => decodeOperator(o));
+    this.maxAge = opts.maxAge ?? 0;
+    this.now = opts.now ?? Date.now;
+  }
+
+  path(id: string): string {
+    // the id is used as a file name, it must be an account key and not
+    // a path that could resolve outside of the directory
+    if (!isPublicKey(id, "A")) {
+      throw new JwtError(
+        JwtErrorCode.InvalidKey,
+        `${id} is not an account public key`,
+      );
+    }
+    return joinPath(this.dir, `${id}${jwtExt}`);
+  }
+
+  verify(id: string, jwt: string): ClaimsData<Account> {
+    const ac = decodeAccount(jwt);
+    if (ac.sub !== id) {
+      throw new JwtError(
+        JwtErrorCode.InvalidClaim,
+        `account ${ac.sub} is stored as ${id}`,
+      );
+    }
+    if (
+      this.operators.length > 0 &&
+      !this.operators.some((oc) => isIssuerOf(oc, ac.iss))
+    ) {
+      throw new JwtError(
+        JwtErrorCode.UntrustedIssuer,
+        `account ${ac.sub} issuer ${ac.iss} is not a trusted operator or operator signing key`,
+      );
+    }
+    return ac;
+  }
+
+  async list(): Promise<string[]> {
+    const names = await this.fs.readDir(this.dir);
+    return names.filter((n) => n.endsWith(jwtExt)).map((n) => {
+      return n.substring(0, n.length - jwtExt.length);
+    });
+  }
+
+  async load(id: string): Promise<string | undefined> {
+    const p = this.path(id);
+    if (!await this.fs.exists(p)) {
+      return undefined;
+    }
+    return new TextDecoder().decode(await this.fs.readFile(p)).trim();
+  }
+
+  async get(
+    id: string,
+    opts?: Partial<ValidationOptions>,
+  ): Promise<ClaimsData<Account> | undefined> {
+    const jwt = await this.load(id);
+    if (jwt === undefined) {
+      return undefined;
+    }
+    const ac = this.verify(id, jwt);
+    if (opts) {
+      const err = validateDates(ac, opts).find((i) => i.severity === "error");
+      if (err) {
+        throw new JwtError(
+          err.code ?? JwtErrorCode.InvalidClaim,
+          err.description,
+        );
+      }
+    }
+    return ac;
+  }
+
+  async save(jwt: string): Promise<boolean> {
+    const ac = decodeAccount(jwt);
+    this.verify(ac.sub, jwt);
+    const current = await this.load(ac.sub);
+    if (current !== undefined) {
+      let cc: ClaimsData<Account> | undefined;
+      try {
+        cc = decodeAccount(current);
+      } catch (_err) {
+        // an entry that cannot be decoded is replaced
+      }
+      if (cc && cc.sub === ac.sub && ac.iat <= cc.iat) {
+        return false;
+      }
+    }
+    await this.fs.mkdir(this.dir);
+    await this.fs.writeFile(
+      this.path(ac.sub),
+      new TextEncoder().encode(jwt),
+    );
+    return true;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.fs.remove(this.path(id));
+  }
+
+  async check(): Promise<DirStoreIssue[]> {
+    const issues: DirStoreIssue[] = [];
+    const now = Math.floor(this.now() / 1000);
+    for (const id of await this.list()) {
+      let ac: ClaimsData<Account>;
+      try {
+        ac = this.verify(id, await this.load(id) ?? "");
+      } catch (err) {
+        issues.push({
+          id,
+          kind: "invalid",
+          description: (err as Error).message,
+        });
+        continue;
+      }
+      const expired = validateDates(ac, { now: this.now }).find((i) => {
+        return i.code === JwtErrorCode.Expired;
+      });
+      if (expired) {
+        issues.push({ id, kind: "expired", description: expired.description });
+      } else if (this.maxAge > 0 && now - ac.iat > this.maxAge) {
+        issues.push({
+          id,
+          kind: "stale",
+          description:
+            `account was issued more than ${this.maxAge}s ago - iat ${ac.iat}`,
+        });
+      }
+    }
+    return issues;
+  }
+}
+
+/**
+ * Returns a DirStore for the full resolver directory
+ * @param fs - the file system where the directory is
+ * @param dir - the directory of the store
+ * @param opts - options
+ */
+export function newDirStore(
+  fs: FileSystem,
+  dir: string,
+  opts: Partial<DirStoreOptions> = {},
+): DirStore {
+  return new DirStoreImpl(fs, dir, opts);
+}
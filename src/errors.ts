@@ -0,0 +1,47 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Possible error codes on exceptions thrown by the library.
+ */
+export enum JwtErrorCode {
+  InvalidFormat = "jwt: invalid format",
+  InvalidAlgorithm = "jwt: invalid algorithm",
+  InvalidSignature = "jwt: invalid signature",
+  InvalidKey = "jwt: invalid key",
+  UnexpectedKeyType = "jwt: unexpected key type",
+  MissingSeed = "jwt: missing seed",
+  Expired = "jwt: expired",
+  NotYetValid = "jwt: not yet valid",
+  InvalidCredentials = "jwt: invalid credentials",
+  InvalidEncryption = "jwt: invalid encryption",
+  UnexpectedClaimType = "jwt: unexpected claim type",
+  InvalidClaim = "jwt: invalid claim",
+  InvalidSubject = "jwt: invalid subject",
+  UntrustedIssuer = "jwt: untrusted issuer",
+  InvalidAudience = "jwt: invalid audience",
+}
+
+/**
+ * Error thrown by the library, the code can be used to identify
+ * the failure without matching on the message
+ */
+export class JwtError extends Error {
+  code: JwtErrorCode;
+
+  constructor(code: JwtErrorCode, message?: string, options?: ErrorOptions) {
+    super(message ?? code, options);
+    this.name = "JwtError";
+    this.code = code;
+  }
+}
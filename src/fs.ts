@@ -0,0 +1,181 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The file operations used by the stores. Paths are separated by `/`.
+ */
+export interface FileSystem {
+  /**
+   * Returns the contents of the file, rejects if the file doesn't exist
+   */
+  readFile(path: string): Promise<Uint8Array>;
+  /**
+   * Creates or replaces the file, the parent directory must exist
+   */
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+  /**
+   * Returns the names of the entries in the directory, or an empty
+   * list if the directory doesn't exist
+   */
+  readDir(path: string): Promise<string[]>;
+  /**
+   * Creates the directory and any missing parent directories
+   */
+  mkdir(path: string): Promise<void>;
+  /**
+   * Returns true if the file or directory exists
+   */
+  exists(path: string): Promise<boolean>;
+  /**
+   * Removes the file, it is not an error if the file doesn't exist
+   */
+  remove(path: string): Promise<void>;
+}
+
+/**
+ * Joins the path segments with `/`, empty segments are ignored
+ * @param parts
+ */
+export function joinPath(...parts: string[]): string {
+  const abs = parts.length > 0 && parts[0].startsWith("/");
+  const p = parts.flatMap((s) => s.split("/")).filter((s) => s.length > 0)
+    .join("/");
+  return abs ? `/${p}` : p;
+}
+
+class MemoryFileSystem implements FileSystem {
+  files: Map<string, Uint8Array>;
+  dirs: Set<string>;
+
+  constructor() {
+    this.files = new Map();
+    this.dirs = new Set();
+  }
+
+  readFile(path: string): Promise<Uint8Array> {
+    const d = this.files.get(joinPath(path));
+    if (!d) {
+      return Promise.reject(new Error(`${path} not found`));
+    }
+    return Promise.resolve(d.slice());
+  }
+
+  writeFile(path: string, data: Uint8Array): Promise<void> {
+    path = joinPath(path);
+    const idx = path.lastIndexOf("/");
+    if (idx > 0 && !this.dirs.has(path.substring(0, idx))) {
+      return Promise.reject(
+        new Error(`${path.substring(0, idx)} is not a directory`),
+      );
+    }
+    this.files.set(path, data.slice());
+    return Promise.resolve();
+  }
+
+  readDir(path: string): Promise<string[]> {
+    const prefix = `${joinPath(path)}/`;
+    const names = new Set<string>();
+    [...this.files.keys(), ...this.dirs].forEach((p) => {
+      if (p.startsWith(prefix)) {
+        names.add(p.substring(prefix.length).split("/")[0]);
+      }
+    });
+    return Promise.resolve([...names].sort());
+  }
+
+  mkdir(path: string): Promise<void> {
+    const parts = joinPath(path).split("/");
+    for (let i = 1; i <= parts.length; i++) {
+      this.dirs.add(parts.slice(0, i).join("/"));
+    }
+    return Promise.resolve();
+  }
+
+  exists(path: string): Promise<boolean> {
+    path = joinPath(path);
+    return Promise.resolve(this.files.has(path) || this.dirs.has(path));
+  }
+
+  remove(path: string): Promise<void> {
+    this.files.delete(joinPath(path));
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Returns a FileSystem that keeps the files in memory, useful for tests
+ * and for environments without a file system
+ */
+export function newMemoryFileSystem(): FileSystem {
+  return new MemoryFileSystem();
+}
+
+type NodeFs = typeof import("node:fs/promises");
+
+function isNotFound(err: unknown): boolean {
+  return (err as { code?: string })?.code === "ENOENT";
+}
+
+/**
+ * Returns a FileSystem backed by `node:fs/promises`, which is available
+ * on Node.js, Deno and Bun. The module is only loaded when a file is
+ * accessed, so the library can still be used in a browser.
+ */
+export function newNodeFileSystem(): FileSystem {
+  let mod: Promise<NodeFs> | undefined;
+  const fs = (): Promise<NodeFs> => {
+    mod = mod ?? import("node:fs/promises");
+    return mod;
+  };
+  return {
+    async readFile(path: string): Promise<Uint8Array> {
+      return new Uint8Array(await (await fs()).readFile(path));
+    },
+    async writeFile(path: string, data: Uint8Array): Promise<void> {
+      await (await fs()).writeFile(path, data);
+    },
+    async readDir(path: string): Promise<string[]> {
+      try {
+        return (await (await fs()).readdir(path)).sort();
+      } catch (err) {
+        if (isNotFound(err)) {
+          return [];
+        }
+        throw err;
+      }
+    },
+    async mkdir(path: string): Promise<void> {
+      await (await fs()).mkdir(path, { recursive: true });
+    },
+    async exists(path: string): Promise<boolean> {
+      try {
+        await (await fs()).stat(path);
+        return true;
+      } catch (err) {
+        if (isNotFound(err)) {
+          return false;
+        }
+        throw err;
+      }
+    },
+    async remove(path: string): Promise<void> {
+      try {
+        await (await fs()).unlink(path);
+      } catch (err) {
+        if (!isNotFound(err)) {
+          throw err;
+        }
+      }
+    },
+  };
+}
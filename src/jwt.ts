@@ -13,6 +13,7 @@
 
 import type {
   Account,
+  AccountDeletion,
   Activation,
   AuthorizationResponse,
   ClaimsData,
@@ -28,12 +29,20 @@ import {
   defaultUser,
   defaultUserPermissionsLimits,
   extend,
+  isAccount,
   randomID,
+  version,
 } from "./util.ts";
+import { validateAccount } from "./account.ts";
+import { isIssuerOf } from "./chain.ts";
 import { checkKey } from "./keys.ts";
 import type { Key } from "./keys.ts";
 import type { KeyPair } from "./nkeys.ts";
 import { Base64Codec, Base64UrlCodec } from "./base64.ts";
+import { checkIssues, validateDates } from "./validate.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+import type { ValidationOptions } from "./validate.ts";
+import { normalizeConnectionTypes, validateUserLimits } from "./limits.ts";
 
 /**
  * Enum capturing the JWT algorithm
@@ -47,6 +56,14 @@ export interface UserEncodingOptions extends EncodingOptions {
   scopedUser?: boolean;
 }
 
+export interface AccountEncodingOptions extends EncodingOptions {
+  /**
+   * If true, the account is checked with validateAccount and
+   * the encoding fails if any errors are found
+   */
+  strict?: boolean;
+}
+
 export interface EncodingOptions extends ValidDates {
   aud?: string;
   algorithm: Algorithms;
@@ -104,7 +121,7 @@ export async function encodeAccount(
   name: string,
   akp: Key,
   account: Partial<Account> = {},
-  opts: Partial<EncodingOptions> = {},
+  opts: Partial<AccountEncodingOptions> = {},
 ): Promise<string> {
   akp = checkKey(akp, "A", !opts.signer);
   let signer = akp;
@@ -115,6 +132,9 @@ export async function encodeAccount(
   claim.name = name;
   claim.sub = akp.getPublicKey();
   claim.nats = account;
+  if (opts.strict) {
+    checkIssues("account", validateAccount(claim));
+  }
   const o = initAlgorithm(opts);
   setVersionType(o.algorithm, Types.Account, claim);
   return await encode(o.algorithm, claim, signer);
@@ -137,6 +157,14 @@ export async function encodeUser(
   claim.name = name;
   claim.sub = ukp.getPublicKey();
   claim.nats = opts.scopedUser ? user : defaultUser(user);
+  if (claim.nats.allowed_connection_types) {
+    claim.nats = Object.assign({}, claim.nats, {
+      allowed_connection_types: normalizeConnectionTypes(
+        claim.nats.allowed_connection_types,
+      ),
+    });
+  }
+  checkIssues("user", validateUserLimits(claim.nats));
   if (opts.signer) {
     claim.nats.issuer_account = issuer.getPublicKey();
   }
@@ -198,6 +226,40 @@ export async function encodeGeneric(
   return await encode(o.algorithm, claim, signer);
 }
 
+/**
+ * Generates the JWT sent to `$SYS.REQ.CLAIMS.DELETE` to delete accounts
+ * from a full resolver. The claim is issued for the operator, and must be
+ * signed by the operator or one of its signing keys.
+ * @param okp - the operator key
+ * @param accounts - the ids of the accounts to delete
+ * @param opts - encoding options, the signer can be an operator signing key
+ */
+export async function encodeAccountDeletion(
+  okp: Key,
+  accounts: string[],
+  opts: Partial<EncodingOptions> = {},
+): Promise<string> {
+  okp = checkKey(okp, "O", !opts.signer);
+  let signer = okp;
+  if (opts.signer) {
+    signer = checkKey(opts.signer, "O", true);
+  }
+  if (accounts.length === 0) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      "at least one account is required",
+    );
+  }
+  const claim = initClaim<AccountDeletion>(opts);
+  claim.sub = okp.getPublicKey();
+  claim.nats = {
+    accounts: accounts.map((a) => checkKey(a, "A").getPublicKey()),
+  };
+  const o = initAlgorithm(opts);
+  setVersionType(o.algorithm, Types.Generic, claim as ClaimsData<Generic>);
+  return await encode(o.algorithm, claim, signer);
+}
+
 export async function encodeAuthorizationResponse(
   user: Key,
   server: Key,
@@ -239,23 +301,41 @@ function setVersionType(
   }
 }
 
-export function decode<T = unknown>(jwt: string): ClaimsData<T> {
+/**
+ * Decodes the JWT and verifies its signature. If validation options are
+ * provided, the `exp`, `nbf` and `iat` of the claim are checked, and the
+ * decode fails if the claim is expired or not yet valid. With the `strict`
+ * option, account claims are also checked with validateAccount.
+ * @param jwt
+ * @param opts - validation options
+ */
+export function decode<T = unknown>(
+  jwt: string,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<T> {
   const chunks = jwt.split(".");
   if (chunks.length !== 3) {
-    throw new Error(`invalid jwt - ${chunks.length} chunks`);
+    throw new JwtError(
+      JwtErrorCode.InvalidFormat,
+      `invalid jwt - ${chunks.length} chunks`,
+    );
   }
 
-  const h = JSON.parse(Base64UrlCodec.decode(chunks[0]) as string);
+  const h = parseChunk(chunks[0], "header");
   if (h.typ !== "jwt" && h.typ !== "JWT") {
-    throw new Error(`not a nats jwt - typ ${h.type}`);
+    throw new JwtError(
+      JwtErrorCode.InvalidFormat,
+      `not a nats jwt - typ ${h.typ}`,
+    );
   }
   if (h.alg !== Algorithms.v1 && h.alg !== Algorithms.v2) {
-    throw new Error(`not a nats jwt - alg ${h.alg}`);
+    throw new JwtError(
+      JwtErrorCode.InvalidAlgorithm,
+      `not a nats jwt - alg ${h.alg}`,
+    );
   }
 
-  const b = JSON.parse(
-    Base64UrlCodec.decode(chunks[1]) as string,
-  ) as ClaimsData<unknown>;
+  const b = parseChunk(chunks[1], "payload") as unknown as ClaimsData<unknown>;
   const ipk = checkKey(b.iss);
 
   const sig = Base64UrlCodec.decode(chunks[2], true) as Uint8Array;
@@ -265,12 +345,169 @@ export function decode<T = unknown>(jwt: string): ClaimsData<T> {
     ? `${chunks[0]}.${chunks[1]}`
     : chunks[1];
 
-  if (!ipk.verify(te.encode(payload), sig)) {
-    throw new Error("sig verification failed");
+  let ok = false;
+  try {
+    ok = ipk.verify(te.encode(payload), sig);
+  } catch (err) {
+    throw new JwtError(
+      JwtErrorCode.InvalidSignature,
+      "sig verification failed",
+      { cause: err },
+    );
+  }
+  if (!ok) {
+    throw new JwtError(
+      JwtErrorCode.InvalidSignature,
+      "sig verification failed",
+    );
+  }
+  if (opts) {
+    const err = validateDates(b, opts).find((i) => i.severity === "error");
+    if (err) {
+      throw new JwtError(
+        err.code ?? JwtErrorCode.InvalidFormat,
+        err.description,
+      );
+    }
+    if (opts.strict && isAccount(b)) {
+      checkIssues("account", validateAccount(b as ClaimsData<Account>));
+    }
   }
   return b as ClaimsData<T>;
 }
 
+function decodeAs<T>(
+  jwt: string,
+  type: Types,
+  subject: string | string[],
+  issuer: string | string[],
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<T> {
+  const c = decode<T>(jwt, opts);
+  const gen = c.nats as Generic;
+  const v1 = version(c) === 1;
+  const ct = v1 ? c.type : gen.type;
+  if (ct !== type) {
+    throw new JwtError(
+      JwtErrorCode.UnexpectedClaimType,
+      `unexpected claim type ${ct} - wanted ${type}`,
+    );
+  }
+  checkKey(c.sub, subject);
+  checkKey(c.iss, issuer);
+  if (v1) {
+    // v1 activations stored the kind as the type
+    if (type === Types.Activation) {
+      gen.kind = gen.kind ?? gen.type;
+    }
+    gen.type = type;
+  }
+  return c;
+}
+
+/**
+ * Decodes an operator JWT, failing if the JWT is not an operator claim.
+ * For v1 JWTs the `nats.type` is set as in v2 JWTs.
+ * @param jwt
+ * @param opts - validation options
+ */
+export function decodeOperator(
+  jwt: string,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<Operator> {
+  return decodeAs<Operator>(jwt, Types.Operator, "O", "O", opts);
+}
+
+/**
+ * Decodes an account JWT, failing if the JWT is not an account claim
+ * issued by an operator or an account. For v1 JWTs the `nats.type` is
+ * set as in v2 JWTs.
+ * @param jwt
+ * @param opts - validation options
+ */
+export function decodeAccount(
+  jwt: string,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<Account> {
+  return decodeAs<Account>(jwt, Types.Account, "A", ["O", "A"], opts);
+}
+
+/**
+ * Decodes a user JWT, failing if the JWT is not a user claim issued by
+ * an account. For v1 JWTs the `nats.type` is set as in v2 JWTs.
+ * @param jwt
+ * @param opts - validation options
+ */
+export function decodeUser(
+  jwt: string,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<User> {
+  return decodeAs<User>(jwt, Types.User, "U", "A", opts);
+}
+
+/**
+ * Decodes an activation JWT, failing if the JWT is not an activation claim
+ * for an account issued by an account. For v1 JWTs the `nats.type` and
+ * `nats.kind` are set as in v2 JWTs.
+ * @param jwt
+ * @param opts - validation options
+ */
+export function decodeActivation(
+  jwt: string,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<Activation> {
+  return decodeAs<Activation>(jwt, Types.Activation, "A", "A", opts);
+}
+
+function parseChunk(chunk: string, name: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Base64UrlCodec.decode(chunk) as string);
+  } catch (err) {
+    throw new JwtError(
+      JwtErrorCode.InvalidFormat,
+      `invalid jwt - ${name} is not valid`,
+      { cause: err },
+    );
+  }
+}
+
+/**
+ * Decodes a JWT generated by `encodeAccountDeletion()`. The claim must be
+ * for the operator, and issued by the operator or one of its signing keys.
+ * @param jwt
+ * @param operator - the operator JWT or claim
+ * @param opts - validation options
+ */
+export function decodeAccountDeletion(
+  jwt: string,
+  operator: string | ClaimsData<Operator>,
+  opts?: Partial<ValidationOptions>,
+): ClaimsData<AccountDeletion> {
+  const oc = typeof operator === "string" ? decodeOperator(operator) : operator;
+  const c = decodeAs<AccountDeletion>(jwt, Types.Generic, "O", "O", opts);
+  if (c.sub !== oc.sub) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `account deletion subject ${c.sub} is not operator ${oc.sub}`,
+    );
+  }
+  if (!isIssuerOf(oc, c.iss)) {
+    throw new JwtError(
+      JwtErrorCode.UntrustedIssuer,
+      `account deletion issuer ${c.iss} is not operator ${oc.sub} or one of its signing keys`,
+    );
+  }
+  const accounts = c.nats.accounts;
+  if (!Array.isArray(accounts) || accounts.length === 0) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      "account deletion doesn't list any accounts",
+    );
+  }
+  accounts.forEach((a) => checkKey(a, "A"));
+  return c;
+}
+
 export async function encode(
   version: Algorithms,
   claim: ClaimsData<unknown>,
@@ -314,6 +551,10 @@ export function newScopedSigner(
 ): SigningKey {
   signer = checkKey(signer, "A", false);
   limits = defaultUserPermissionsLimits(limits);
+  limits.allowed_connection_types = normalizeConnectionTypes(
+    limits.allowed_connection_types ?? [],
+  );
+  checkIssues("scoped signer", validateUserLimits(limits));
   const s = {} as SigningKey;
   s.key = signer.getPublicKey();
   s.role = role;
@@ -322,44 +563,110 @@ export function newScopedSigner(
   return s;
 }
 
-export function fmtCreds(token: string, kp: KeyPair): Uint8Array {
+function fmtDecorated(
+  kind: "OPERATOR" | "ACCOUNT" | "USER",
+  token: string,
+  kp: KeyPair,
+): Uint8Array {
   const s = new TextDecoder().decode(kp.getSeed());
-  const creds = `-----BEGIN NATS USER JWT-----
+  const creds = `-----BEGIN NATS ${kind} JWT-----
 ${token}
-------END NATS USER JWT------
+------END NATS ${kind} JWT------
 
 ************************* IMPORTANT *************************
 NKEY Seed printed below can be used sign and prove identity.
 NKEYs are sensitive and should be treated as secrets.
 
------BEGIN USER NKEY SEED-----
+-----BEGIN ${kind} NKEY SEED-----
 ${s}
-------END USER NKEY SEED------
+------END ${kind} NKEY SEED------
 `;
   return new TextEncoder().encode(creds);
 }
 
+export function fmtCreds(token: string, kp: KeyPair): Uint8Array {
+  return fmtDecorated("USER", token, kp);
+}
+
+/**
+ * Formats an operator JWT and its seed in the decorated format used by
+ * nsc for operator credentials
+ * @param token - the operator JWT
+ * @param kp - the operator key with its seed
+ */
+export function fmtOperatorCreds(token: string, kp: KeyPair): Uint8Array {
+  return fmtDecorated("OPERATOR", token, kp);
+}
+
+/**
+ * Formats an account JWT and its seed in the decorated format used by
+ * nsc for account credentials
+ * @param token - the account JWT
+ * @param kp - the account key with its seed
+ */
+export function fmtAccountCreds(token: string, kp: KeyPair): Uint8Array {
+  return fmtDecorated("ACCOUNT", token, kp);
+}
+
+// returns the contents of the decorated blocks (`-----BEGIN ...-----`) in
+// the creds, line endings and whitespace around the contents are ignored
+function decoratedBlocks(creds: Uint8Array | string): string[] {
+  const s = typeof creds === "string" ? creds : new TextDecoder().decode(creds);
+  const re =
+    /[-]{3,}[^\r\n]*[-]{3,}[ \t]*\r?\n\s*([\w\-.=]+)\s*?\r?\n\s*[-]{3,}[^\r\n]*[-]{3,}/g;
+  return Array.from(s.matchAll(re), (m) => m[1]);
+}
+
 export async function parseCreds(
   creds: Uint8Array,
 ): Promise<{ key: string; jwt: string; uc: ClaimsData<User>; aid: string }> {
-  const TD = new TextDecoder();
-  const CREDS =
-    /\s*(?:(?:[-]{3,}[^\n]*[-]{3,}\n)(.+)(?:\n\s*[-]{3,}[^\n]*[-]{3,}\n))/ig;
-  const s = TD.decode(creds);
-  // get the JWT
-  let m = CREDS.exec(s);
-  if (!m) {
-    return Promise.reject(new Error("bad credentials"));
-  }
-  const jwt = m[1].trim();
+  const [jwt, key] = decoratedBlocks(creds);
+  if (!jwt || !key) {
+    return Promise.reject(
+      new JwtError(JwtErrorCode.InvalidCredentials, "bad credentials"),
+    );
+  }
   const uc = await decode<User>(jwt);
   const aid = uc.nats.issuer_account ? uc.nats.issuer_account : uc.iss;
+  return Promise.resolve({ key, jwt, uc, aid });
+}
 
-  // next match is the key
-  m = CREDS.exec(s);
-  if (!m) {
-    return Promise.reject(new Error("bad credentials"));
+/**
+ * Parses operator, account or user credentials in the decorated format
+ * and returns the JWT, its claim and the KeyPair for the seed. Line
+ * endings and whitespace around the blocks are ignored. The seed must
+ * be for the subject of the JWT.
+ * @param creds
+ */
+export async function parseDecoratedCreds<T = unknown>(
+  creds: Uint8Array | string,
+): Promise<{ jwt: string; claim: ClaimsData<T>; kp: KeyPair }> {
+  const blocks = decoratedBlocks(creds);
+  const jwt = blocks.find((b) => b.split(".").length === 3);
+  const seed = blocks.find((b) => b.startsWith("S"));
+  if (!jwt || !seed) {
+    return Promise.reject(
+      new JwtError(JwtErrorCode.InvalidCredentials, "bad credentials"),
+    );
   }
-  const key = m[1].trim();
-  return Promise.resolve({ key, jwt, uc, aid });
+  const claim = await decode<T>(jwt);
+  let kp: KeyPair;
+  try {
+    kp = checkKey(seed, ["O", "A", "U"], true);
+  } catch (err) {
+    return Promise.reject(
+      new JwtError(JwtErrorCode.InvalidCredentials, "bad credentials seed", {
+        cause: err,
+      }),
+    );
+  }
+  if (kp.getPublicKey() !== claim.sub) {
+    return Promise.reject(
+      new JwtError(
+        JwtErrorCode.InvalidCredentials,
+        `seed for ${kp.getPublicKey()} does not match jwt subject ${claim.sub}`,
+      ),
+    );
+  }
+  return Promise.resolve({ jwt, claim, kp });
 }
@@ -13,6 +13,7 @@
 
 import { fromPublic, fromSeed } from "./nkeys.ts";
 import type { KeyPair } from "./nkeys.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
 
 /**
  * Key is a generalized representation of an NKey in one of its
@@ -24,10 +25,16 @@ function parseKey(v: string | Uint8Array): KeyPair {
   if (v instanceof Uint8Array) {
     v = new TextDecoder().decode(v);
   }
-  if (v.charAt(0) === "S") {
-    return fromSeed(new TextEncoder().encode(v));
+  try {
+    if (v.charAt(0) === "S") {
+      return fromSeed(new TextEncoder().encode(v));
+    }
+    return fromPublic(v);
+  } catch (err) {
+    throw new JwtError(JwtErrorCode.InvalidKey, (err as Error).message, {
+      cause: err,
+    });
   }
-  return fromPublic(v);
 }
 
 export function checkKey(
@@ -49,11 +56,34 @@ export function checkKey(
     types.push(...type);
   }
   if (type.length > 0 && types.indexOf(k.charAt(0)) === -1) {
-    throw new Error(`unexpected type ${k.charAt(0)} - wanted ${types}`);
+    throw new JwtError(
+      JwtErrorCode.UnexpectedKeyType,
+      `unexpected type ${k.charAt(0)} - wanted ${types}`,
+    );
   }
   if (seed) {
-    // throws
-    kp.getPrivateKey();
+    try {
+      kp.getPrivateKey();
+    } catch (err) {
+      throw new JwtError(
+        JwtErrorCode.MissingSeed,
+        `a seed is required for ${k}`,
+        { cause: err },
+      );
+    }
   }
   return kp;
 }
+
+/**
+ * Returns true if the string is a public key of the specified type
+ * @param k - the string to check
+ * @param type - the expected key prefix or prefixes, any type if not set
+ */
+export function isPublicKey(k: string, type: string | string[] = ""): boolean {
+  try {
+    return checkKey(k, type).getPublicKey() === k;
+  } catch (_err) {
+    return false;
+  }
+}
@@ -0,0 +1,378 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  ClaimsData,
+  ClientInfo,
+  ConnectionType,
+  TimeRange,
+  User,
+  UserPermissionsLimits,
+} from "./types.ts";
+import type { ValidationIssue } from "./validate.ts";
+import { validationError, validationWarning } from "./validate.ts";
+import { userPermissionsLimits } from "./util.ts";
+
+type UserOrLimits = ClaimsData<User> | Partial<UserPermissionsLimits>;
+
+/**
+ * The connection types that can be specified in `allowed_connection_types`
+ */
+export const ConnectionTypes: ReadonlyArray<ConnectionType> = [
+  "STANDARD",
+  "WEBSOCKET",
+  "LEAFNODE",
+  "LEAFNODE_WS",
+  "MQTT",
+  "MQTT_WS",
+  "IN_PROCESS",
+];
+
+function isConnectionType(t: string): t is ConnectionType {
+  return (ConnectionTypes as string[]).includes(t);
+}
+
+/**
+ * Returns the connection types upper-cased and without duplicates. Unknown
+ * types are kept so they can be reported by validation.
+ * @param types
+ */
+export function normalizeConnectionTypes(types: string[]): ConnectionType[] {
+  const normalized = types.map((t) => t.trim().toUpperCase());
+  return normalized.filter((t, idx) =>
+    normalized.indexOf(t) === idx
+  ) as ConnectionType[];
+}
+
+function validateConnectionTypes(
+  issues: ValidationIssue[],
+  types: string[] = [],
+) {
+  const normalized = normalizeConnectionTypes(types);
+  normalized.forEach((t) => {
+    if (!isConnectionType(t)) {
+      issues.push(validationError(`connection type "${t}" is not supported`));
+    }
+  });
+  if (
+    normalized.length !== types.length ||
+    normalized.some((t, idx) => t !== types[idx])
+  ) {
+    issues.push(
+      validationWarning(
+        "allowed connection types should be upper-case and unique",
+      ),
+    );
+  }
+}
+
+// returns the number of seconds since midnight or -1 if not valid
+function parseTime(s = ""): number {
+  const m = /^(\d{1,2}):(\d{2}):(\d{2})$/.exec(s);
+  if (!m) {
+    return -1;
+  }
+  const [h, mm, ss] = m.slice(1).map((v) => parseInt(v, 10));
+  if (h > 23 || mm > 59 || ss > 59) {
+    return -1;
+  }
+  return h * 3600 + mm * 60 + ss;
+}
+
+function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch (_err) {
+    return false;
+  }
+}
+
+// seconds since midnight of the date in the specified time zone
+function secondsOfDay(date: Date, tz?: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const v = (type: string): number => {
+    const p = parts.find((p) => p.type === type);
+    return p ? parseInt(p.value, 10) : 0;
+  };
+  return v("hour") * 3600 + v("minute") * 60 + v("second");
+}
+
+function validateTimes(issues: ValidationIssue[], times: TimeRange[] = []) {
+  times.forEach((t) => {
+    if (parseTime(t.start) === -1) {
+      issues.push(
+        validationError(
+          `time range start "${t.start}" is not in HH:MM:SS format`,
+        ),
+      );
+    }
+    if (parseTime(t.end) === -1) {
+      issues.push(
+        validationError(`time range end "${t.end}" is not in HH:MM:SS format`),
+      );
+    }
+  });
+}
+
+// parses an IPv4 address into its 4 bytes or returns undefined
+function parseIPv4(s: string): number[] | undefined {
+  const parts = s.split(".");
+  if (parts.length !== 4) {
+    return undefined;
+  }
+  const bytes = parts.map((p) => /^\d{1,3}$/.test(p) ? parseInt(p, 10) : -1);
+  return bytes.every((b) => b >= 0 && b <= 255) ? bytes : undefined;
+}
+
+// parses an IPv6 address into its 16 bytes or returns undefined
+function parseIPv6(s: string): number[] | undefined {
+  const halves = s.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const groups = (v: string): number[] | undefined => {
+    if (v === "") {
+      return [];
+    }
+    const bytes: number[] = [];
+    const parts = v.split(":");
+    for (let i = 0; i < parts.length; i++) {
+      const p = parts[i];
+      // the last group can be an embedded IPv4 address
+      if (i === parts.length - 1 && p.includes(".")) {
+        const v4 = parseIPv4(p);
+        if (!v4) {
+          return undefined;
+        }
+        bytes.push(...v4);
+      } else if (/^[0-9a-f]{1,4}$/i.test(p)) {
+        const n = parseInt(p, 16);
+        bytes.push(n >> 8, n & 0xff);
+      } else {
+        return undefined;
+      }
+    }
+    return bytes;
+  };
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  if (!head || !tail) {
+    return undefined;
+  }
+  if (halves.length === 1) {
+    return head.length === 16 ? head : undefined;
+  }
+  const fill = 16 - head.length - tail.length;
+  return fill >= 2 ? [...head, ...new Array(fill).fill(0), ...tail] : undefined;
+}
+
+function parseIP(s: string): number[] | undefined {
+  return s.includes(":") ? parseIPv6(s) : parseIPv4(s);
+}
+
+// parses an address as reported by a server, which for IPv6 may have
+// brackets or a zone, IPv4-mapped IPv6 addresses are returned as IPv4
+function parseHost(s: string): number[] | undefined {
+  s = s.trim().replace(/^\[(.*)\]$/, "$1").replace(/%.*$/, "");
+  const ip = parseIP(s);
+  if (
+    ip?.length === 16 && ip.slice(0, 10).every((b) => b === 0) &&
+    ip[10] === 0xff && ip[11] === 0xff
+  ) {
+    return ip.slice(12);
+  }
+  return ip;
+}
+
+type Network = { ip: number[]; bits: number };
+
+function parseCIDR(s: string): Network | undefined {
+  const m = /^([^/]+)\/(\d{1,3})$/.exec(s.trim());
+  if (!m) {
+    return undefined;
+  }
+  const ip = parseIP(m[1]);
+  const bits = parseInt(m[2], 10);
+  if (!ip || bits > ip.length * 8) {
+    return undefined;
+  }
+  return { ip, bits };
+}
+
+function contains(n: Network, ip: number[]): boolean {
+  if (n.ip.length !== ip.length) {
+    return false;
+  }
+  for (let i = 0; i < n.ip.length; i++) {
+    const bits = Math.min(Math.max(n.bits - i * 8, 0), 8);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((n.ip[i] & mask) !== (ip[i] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns true if the value is an IPv4 or IPv6 network in CIDR notation,
+ * such as `192.168.1.0/24` or `2001:db8::/32`
+ * @param cidr
+ */
+export function isValidCIDR(cidr: string): boolean {
+  return typeof cidr === "string" && parseCIDR(cidr) !== undefined;
+}
+
+/**
+ * Checks the connection limits of a user or a scoped signing key template:
+ * source networks must be in CIDR notation, time ranges must be in
+ * `HH:MM:SS` format, the locale must be a valid IANA time zone, and the
+ * allowed connection types must be known.
+ * @param user - a user claim or its limits
+ */
+export function validateUserLimits(user: UserOrLimits): ValidationIssue[] {
+  const limits = userPermissionsLimits(user);
+  const issues: ValidationIssue[] = [];
+  (limits.src ?? []).forEach((cidr) => {
+    if (!isValidCIDR(cidr)) {
+      issues.push(
+        validationError(`source network "${cidr}" is not a valid CIDR`),
+      );
+    }
+  });
+  validateTimes(issues, limits.times);
+  if (limits.locale && !isValidTimeZone(limits.locale)) {
+    issues.push(
+      validationError(`locale "${limits.locale}" is not a valid time zone`),
+    );
+  }
+  validateConnectionTypes(issues, limits.allowed_connection_types);
+  return issues;
+}
+
+/**
+ * Returns true if the date is within one of the time ranges the user is
+ * allowed to connect. The start and end of the ranges are interpreted in
+ * the time zone specified by the user's `locale`, or the local time zone.
+ * Ranges where the end is before the start cross midnight. A user without
+ * time ranges can connect at any time.
+ * @param user - a user claim or its limits
+ * @param date - defaults to now
+ */
+export function isWithinAllowedTimes(
+  user: UserOrLimits,
+  date: Date = new Date(),
+): boolean {
+  const limits = userPermissionsLimits(user);
+  const times = limits.times ?? [];
+  if (times.length === 0) {
+    return true;
+  }
+  const tz = limits.locale || undefined;
+  if (tz && !isValidTimeZone(tz)) {
+    return false;
+  }
+  const now = secondsOfDay(date, tz);
+  return times.some((t) => {
+    const start = parseTime(t.start);
+    const end = parseTime(t.end);
+    if (start === -1 || end === -1) {
+      return false;
+    }
+    if (start <= end) {
+      return start <= now && now < end;
+    }
+    // crosses midnight
+    return now >= start || now < end;
+  });
+}
+
+/**
+ * Returns true if the user is allowed to connect from the address. Users
+ * without source networks can connect from any address. The address is
+ * typically the `client_info.host` of an `AuthorizationRequest`.
+ * @param user - a user claim or its limits
+ * @param ip - an IPv4 or IPv6 address
+ */
+export function isSourceAllowed(user: UserOrLimits, ip: string): boolean {
+  const src = userPermissionsLimits(user).src ?? [];
+  if (src.length === 0) {
+    return true;
+  }
+  const addr = parseHost(ip);
+  if (!addr) {
+    return false;
+  }
+  return src.some((cidr) => {
+    const n = parseCIDR(cidr);
+    return n !== undefined && contains(n, addr);
+  });
+}
+
+/**
+ * Returns the connection type for the client described by an
+ * `AuthorizationRequest`, or undefined if the kind of connection is not one
+ * that users connect with. Connections over websockets for leafnodes or
+ * MQTT, and in-process connections, are not distinguishable from the client
+ * info, and map to `LEAFNODE`, `MQTT` and `STANDARD` respectively.
+ * @param info - the `client_info` of an `AuthorizationRequest`
+ */
+export function connectionType(info: ClientInfo): ConnectionType | undefined {
+  const kind = (info.kind ?? "client").toLowerCase();
+  const type = (info.type ?? "").toLowerCase();
+  switch (kind) {
+    case "client":
+      switch (type) {
+        case "":
+        case "nats":
+          return "STANDARD";
+        case "websocket":
+          return "WEBSOCKET";
+        case "mqtt":
+          return "MQTT";
+      }
+      return undefined;
+    case "leafnode":
+      return "LEAFNODE";
+  }
+  return undefined;
+}
+
+/**
+ * Returns true if the user is allowed to connect with the connection type.
+ * Users without allowed connection types can connect with any type.
+ * @param user - a user claim or its limits
+ * @param conn - a connection type or the `client_info` of an
+ *   `AuthorizationRequest`
+ */
+export function isConnectionTypeAllowed(
+  user: UserOrLimits,
+  conn: ConnectionType | ClientInfo,
+): boolean {
+  const types = normalizeConnectionTypes(
+    userPermissionsLimits(user).allowed_connection_types ?? [],
+  );
+  if (types.length === 0) {
+    return true;
+  }
+  const t = typeof conn === "string"
+    ? conn.trim().toUpperCase()
+    : connectionType(conn);
+  return t !== undefined && (types as string[]).includes(t);
+}
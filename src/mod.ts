@@ -11,11 +11,27 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+export * from "./account.ts";
+export * from "./accountserver.ts";
+export * from "./authcallout.ts";
 export * from "./base64.ts";
+export * from "./builders.ts";
+export * from "./chain.ts";
+export * from "./diff.ts";
+export * from "./dirstore.ts";
+export * from "./errors.ts";
+export * from "./fs.ts";
 export * from "./jwt.ts";
 export * from "./types.ts";
 export * from "./keys.ts";
+export * from "./limits.ts";
+export * from "./nsc.ts";
+export * from "./permissions.ts";
+export * from "./resolver.ts";
+export * from "./subject.ts";
+export * from "./sys.ts";
 export * from "./util.ts";
+export * from "./validate.ts";
 
 export {
   createAccount,
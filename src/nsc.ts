@@ -0,0 +1,281 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { Account, ClaimsData, Operator, User } from "./types.ts";
+import type { KeyPair } from "./nkeys.ts";
+import { decodeAccount, decodeOperator, decodeUser, fmtCreds } from "./jwt.ts";
+import { checkKey } from "./keys.ts";
+import type { FileSystem } from "./fs.ts";
+import { joinPath } from "./fs.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+const jwtExt = ".jwt";
+const nkeyExt = ".nk";
+
+export interface NscUser {
+  name: string;
+  jwt: string;
+  claim: ClaimsData<User>;
+  /**
+   * The key of the user if its seed is in the keys directory
+   */
+  kp?: KeyPair;
+}
+
+export interface NscAccount {
+  name: string;
+  jwt: string;
+  claim: ClaimsData<Account>;
+  /**
+   * The key of the account if its seed is in the keys directory
+   */
+  kp?: KeyPair;
+  users: NscUser[];
+}
+
+export interface NscOperator {
+  name: string;
+  jwt: string;
+  claim: ClaimsData<Operator>;
+  /**
+   * The key of the operator if its seed is in the keys directory
+   */
+  kp?: KeyPair;
+  accounts: NscAccount[];
+}
+
+/**
+ * Reads and writes the directories used by nsc: the stores directory
+ * (`<operator>/<operator>.jwt`, `<operator>/accounts/<account>/<account>.jwt`
+ * and `<operator>/accounts/<account>/users/<user>.jwt`) and the keys
+ * directory (`keys/<kind>/<xx>/<public key>.nk` and
+ * `creds/<operator>/<account>/<user>.creds`).
+ */
+export interface NscStore {
+  /**
+   * Returns the names of the operators in the stores directory
+   */
+  operators(): Promise<string[]>;
+  /**
+   * Loads the operator, its accounts and users, and the seeds found in
+   * the keys directory. Returns undefined if the operator doesn't exist.
+   * @param name - the operator name
+   */
+  load(name: string): Promise<NscOperator | undefined>;
+  /**
+   * Writes the operator, its accounts and users, and the seeds of the
+   * entities that have one. Users with a seed also get a creds file.
+   * Entries in the store that are not in the operator are not removed.
+   * @param operator
+   */
+  save(operator: NscOperator): Promise<void>;
+  /**
+   * Returns the KeyPair stored for the public key or undefined
+   * @param pk - a public key
+   */
+  findKey(pk: string): Promise<KeyPair | undefined>;
+  /**
+   * Stores the seed of the KeyPair in the keys directory
+   * @param kp
+   */
+  saveKey(kp: KeyPair): Promise<void>;
+}
+
+class NscStoreImpl implements NscStore {
+  fs: FileSystem;
+  storesDir: string;
+  keysDir: string;
+
+  constructor(fs: FileSystem, storesDir: string, keysDir: string) {
+    this.fs = fs;
+    this.storesDir = storesDir;
+    this.keysDir = keysDir;
+  }
+
+  operatorDir(o: string): string {
+    return joinPath(this.storesDir, o);
+  }
+
+  accountDir(o: string, a: string): string {
+    return joinPath(this.operatorDir(o), "accounts", a);
+  }
+
+  keyPath(pk: string): string {
+    return joinPath(
+      this.keysDir,
+      "keys",
+      pk.charAt(0),
+      pk.substring(1, 3),
+      `${pk}${nkeyExt}`,
+    );
+  }
+
+  async read(path: string): Promise<string> {
+    return new TextDecoder().decode(await this.fs.readFile(path)).trim();
+  }
+
+  async write(path: string, data: string | Uint8Array) {
+    const idx = path.lastIndexOf("/");
+    if (idx > 0) {
+      await this.fs.mkdir(path.substring(0, idx));
+    }
+    await this.fs.writeFile(
+      path,
+      typeof data === "string" ? new TextEncoder().encode(data) : data,
+    );
+  }
+
+  async operators(): Promise<string[]> {
+    const names = await this.fs.readDir(this.storesDir);
+    const operators: string[] = [];
+    for (const n of names) {
+      if (
+        await this.fs.exists(joinPath(this.operatorDir(n), `${n}${jwtExt}`))
+      ) {
+        operators.push(n);
+      }
+    }
+    return operators;
+  }
+
+  async load(name: string): Promise<NscOperator | undefined> {
+    const op = joinPath(this.operatorDir(name), `${name}${jwtExt}`);
+    if (!await this.fs.exists(op)) {
+      return undefined;
+    }
+    const jwt = await this.read(op);
+    const claim = decodeOperator(jwt);
+    const operator: NscOperator = {
+      name,
+      jwt,
+      claim,
+      kp: await this.findKey(claim.sub),
+      accounts: [],
+    };
+    const accounts = await this.fs.readDir(
+      joinPath(this.operatorDir(name), "accounts"),
+    );
+    for (const a of accounts) {
+      const dir = this.accountDir(name, a);
+      const p = joinPath(dir, `${a}${jwtExt}`);
+      if (!await this.fs.exists(p)) {
+        continue;
+      }
+      const jwt = await this.read(p);
+      const claim = decodeAccount(jwt);
+      const account: NscAccount = {
+        name: a,
+        jwt,
+        claim,
+        kp: await this.findKey(claim.sub),
+        users: [],
+      };
+      const users = await this.fs.readDir(joinPath(dir, "users"));
+      for (const u of users.filter((u) => u.endsWith(jwtExt))) {
+        const jwt = await this.read(joinPath(dir, "users", u));
+        const claim = decodeUser(jwt);
+        account.users.push({
+          name: u.substring(0, u.length - jwtExt.length),
+          jwt,
+          claim,
+          kp: await this.findKey(claim.sub),
+        });
+      }
+      operator.accounts.push(account);
+    }
+    return operator;
+  }
+
+  async save(operator: NscOperator): Promise<void> {
+    const o = operator.name;
+    const oc = decodeOperator(operator.jwt);
+    await this.saveEntity(oc.sub, operator.kp);
+    await this.write(
+      joinPath(this.operatorDir(o), `${o}${jwtExt}`),
+      operator.jwt,
+    );
+    const info = joinPath(this.operatorDir(o), ".nsc");
+    if (!await this.fs.exists(info)) {
+      await this.write(
+        info,
+        JSON.stringify({ name: o, kind: "operator", version: 2 }),
+      );
+    }
+    for (const account of operator.accounts) {
+      const a = account.name;
+      const ac = decodeAccount(account.jwt);
+      await this.saveEntity(ac.sub, account.kp);
+      await this.write(
+        joinPath(this.accountDir(o, a), `${a}${jwtExt}`),
+        account.jwt,
+      );
+      for (const user of account.users) {
+        const uc = decodeUser(user.jwt);
+        await this.saveEntity(uc.sub, user.kp);
+        await this.write(
+          joinPath(this.accountDir(o, a), "users", `${user.name}${jwtExt}`),
+          user.jwt,
+        );
+        if (user.kp) {
+          await this.write(
+            joinPath(this.keysDir, "creds", o, a, `${user.name}.creds`),
+            fmtCreds(user.jwt, user.kp),
+          );
+        }
+      }
+    }
+  }
+
+  async saveEntity(sub: string, kp?: KeyPair) {
+    if (!kp) {
+      return;
+    }
+    if (kp.getPublicKey() !== sub) {
+      throw new JwtError(
+        JwtErrorCode.InvalidKey,
+        `key ${kp.getPublicKey()} doesn't match jwt subject ${sub}`,
+      );
+    }
+    await this.saveKey(kp);
+  }
+
+  async findKey(pk: string): Promise<KeyPair | undefined> {
+    const p = this.keyPath(pk);
+    if (!await this.fs.exists(p)) {
+      return undefined;
+    }
+    return checkKey(await this.read(p), pk.charAt(0), true);
+  }
+
+  async saveKey(kp: KeyPair): Promise<void> {
+    const pk = kp.getPublicKey();
+    checkKey(kp, "", true);
+    await this.write(this.keyPath(pk), kp.getSeed());
+  }
+}
+
+/**
+ * Returns an NscStore for the nsc stores and keys directories, by default
+ * nsc uses `$XDG_DATA_HOME/nats/nsc/stores` and `$XDG_DATA_HOME/nats/nsc/keys`
+ * (or `$NKEYS_PATH`)
+ * @param fs - the file system where the directories are
+ * @param storesDir - the stores directory
+ * @param keysDir - the keys directory
+ */
+export function newNscStore(
+  fs: FileSystem,
+  storesDir: string,
+  keysDir: string,
+): NscStore {
+  return new NscStoreImpl(fs, storesDir, keysDir);
+}
@@ -0,0 +1,271 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+  Account,
+  ClaimsData,
+  Permission,
+  Permissions,
+  SigningKey,
+  User,
+  UserPermissionsLimits,
+} from "./types.ts";
+import {
+  isLiteralSubject,
+  isSubjectSubset,
+  isValidSubject,
+} from "./subject.ts";
+import {
+  defaultUserPermissionsLimits,
+  issuer,
+  userPermissionsLimits,
+} from "./util.ts";
+import { isIssuerOf } from "./chain.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+type PermissionEntry = { subject: string; queue?: string };
+
+// permission entries can be "subject" or "subject queue"
+function parseEntries(entries: string[] = []): PermissionEntry[] {
+  return entries.map((e) => {
+    const [subject, queue] = e.trim().split(/\s+/);
+    return { subject, queue };
+  });
+}
+
+// returns undefined if no entries match the subject, otherwise
+// whether the queue is matched by a queue entry, for plain entries
+// or when a queue is not specified, a match on the subject is true
+function matches(
+  entries: PermissionEntry[],
+  subject: string,
+  queue?: string,
+): boolean | undefined {
+  const psubs = entries.filter((e) =>
+    !e.queue && isSubjectSubset(subject, e.subject)
+  );
+  const qsubs = entries.filter((e) =>
+    e.queue && isSubjectSubset(subject, e.subject)
+  );
+  if (queue && qsubs.length > 0) {
+    return qsubs.some((e) => isSubjectSubset(queue, e.queue!));
+  }
+  return psubs.length > 0 ? true : undefined;
+}
+
+function check(
+  perm: Partial<Permission> = {},
+  subject: string,
+  queue?: string,
+): boolean {
+  const allow = parseEntries(perm.allow);
+  const deny = parseEntries(perm.deny);
+  // an empty allow list allows everything
+  if (allow.length > 0 && matches(allow, subject, queue) !== true) {
+    return false;
+  }
+  return matches(deny, subject, queue) !== true;
+}
+
+/**
+ * Returns true if the user's permissions allow publishing to the subject.
+ * The subject must be a literal subject. A deny entry matching the subject
+ * always wins, and an empty allow list allows all subjects.
+ * @param user - a user claim or its permissions
+ * @param subject
+ */
+export function canPublish(
+  user: ClaimsData<User> | Partial<Permissions>,
+  subject: string,
+): boolean {
+  if (!isLiteralSubject(subject)) {
+    return false;
+  }
+  return check(userPermissionsLimits(user).pub, subject);
+}
+
+/**
+ * Returns true if the user's permissions allow subscribing to the subject,
+ * optionally as part of the specified queue group. The subject can have
+ * wildcards, in which case it must be fully contained by an allow entry.
+ * Entries in the form of `subject queue` only apply to queue subscriptions.
+ * A deny entry matching the subject always wins, and an empty allow list
+ * allows all subjects.
+ * @param user - a user claim or its permissions
+ * @param subject
+ * @param queue
+ */
+export function canSubscribe(
+  user: ClaimsData<User> | Partial<Permissions>,
+  subject: string,
+  queue?: string,
+): boolean {
+  if (!isValidSubject(subject)) {
+    return false;
+  }
+  return check(userPermissionsLimits(user).sub, subject, queue);
+}
+
+const templateRe = /\{\{\s*([a-z-]+)\(([^)]*)\)\s*\}\}/gi;
+
+function tagValues(tags: string[] = [], key: string): string[] {
+  key = key.trim().toLowerCase();
+  return tags.map((t) => t.split(":")).filter((kv) => {
+    return kv.length > 1 && kv[0].trim().toLowerCase() === key;
+  }).map((kv) => kv.slice(1).join(":").trim());
+}
+
+function expand(
+  entry: string,
+  account: ClaimsData<Account>,
+  user: ClaimsData<User>,
+): string[] {
+  let expanded = [""];
+  let last = 0;
+  for (const m of entry.matchAll(templateRe)) {
+    const [fn, name, arg] = m;
+    let values: string[];
+    switch (name.toLowerCase()) {
+      case "name":
+        values = [user.name];
+        break;
+      case "subject":
+        values = [user.sub];
+        break;
+      case "tag":
+        values = tagValues(user.nats.tags, arg);
+        break;
+      case "account-name":
+        values = [account.name];
+        break;
+      case "account-subject":
+        values = [account.sub];
+        break;
+      case "account-tag":
+        values = tagValues(account.nats.tags, arg);
+        break;
+      default:
+        throw new JwtError(
+          JwtErrorCode.InvalidClaim,
+          `template function ${fn} is not supported`,
+        );
+    }
+    const prefix = entry.substring(last, m.index);
+    last = m.index! + fn.length;
+    expanded = expanded.flatMap((e) => values.map((v) => `${e}${prefix}${v}`));
+  }
+  const suffix = entry.substring(last);
+  return expanded.map((e) => `${e}${suffix}`);
+}
+
+function applyTemplate(
+  entries: string[] | undefined,
+  account: ClaimsData<Account>,
+  user: ClaimsData<User>,
+  deny: boolean,
+): string[] | undefined {
+  if (!entries) {
+    return entries;
+  }
+  return entries.flatMap((e) => {
+    const values = expand(e, account, user).filter((v) => {
+      return isValidSubject(v.trim().split(/\s+/)[0]);
+    });
+    // an allow that cannot be generated is dropped, but a deny must
+    // be generated, otherwise the user would get more permissions
+    if (deny && values.length === 0) {
+      throw new JwtError(
+        JwtErrorCode.InvalidClaim,
+        `template "${e}" generated an invalid subject`,
+      );
+    }
+    return values;
+  });
+}
+
+function hasPermissions(p: Partial<Permissions>): boolean {
+  return [p.pub?.allow, p.pub?.deny, p.sub?.allow, p.sub?.deny].some((v) =>
+    v && v.length > 0
+  );
+}
+
+/**
+ * Returns the effective permissions and limits of the user the way the
+ * nats-server computes them. If the user was issued by a scoped signing key
+ * of the account, the user's permissions are ignored, and the template of
+ * the signing key applies. Template functions in the subjects
+ * (`{{name()}}`, `{{subject()}}`, `{{tag(key)}}`, `{{account-name()}}`,
+ * `{{account-subject()}}` and `{{account-tag(key)}}`) are expanded with
+ * values from the user and account. If none of the allow entries of a
+ * template can be generated for the user, everything is denied. If the
+ * permissions of a user that is not scoped are empty, the account's
+ * `default_permissions` apply.
+ * @param account - the account claim for the user
+ * @param user - the user claim
+ */
+export function resolvePermissions(
+  account: ClaimsData<Account>,
+  user: ClaimsData<User>,
+): UserPermissionsLimits {
+  if (issuer(user) !== account.sub || !isIssuerOf(account, user.iss)) {
+    throw new JwtError(
+      JwtErrorCode.UntrustedIssuer,
+      `user issuer ${user.iss} is not account ${account.sub} or one of its signing keys`,
+    );
+  }
+  const scope = (account.nats.signing_keys ?? []).find((k) => {
+    return typeof k !== "string" && k.key === user.iss;
+  }) as SigningKey | undefined;
+
+  const src: Partial<UserPermissionsLimits> = scope
+    ? scope.template ?? {}
+    : user.nats;
+  // copy the fields that are set so the claims are not modified
+  const upl = defaultUserPermissionsLimits(JSON.parse(JSON.stringify({
+    pub: src.pub,
+    sub: src.sub,
+    resp: src.resp,
+    src: src.src,
+    times: src.times,
+    locale: src.locale,
+    data: src.data,
+    payload: src.payload,
+    subs: src.subs,
+    bearer_token: src.bearer_token,
+    allowed_connection_types: src.allowed_connection_types,
+  })));
+
+  if (scope) {
+    for (const p of [upl.pub, upl.sub]) {
+      if (p) {
+        const allow = applyTemplate(p.allow, account, user, false);
+        p.deny = applyTemplate(p.deny, account, user, true);
+        // an empty allow list allows everything, so if none of the
+        // allow entries could be generated, everything is denied
+        if (p.allow?.length && !allow?.length) {
+          p.deny = [">"];
+        }
+        p.allow = allow;
+      }
+    }
+  }
+  if (!scope && !hasPermissions(upl) && account.nats.default_permissions) {
+    const dp = JSON.parse(
+      JSON.stringify(account.nats.default_permissions),
+    ) as Partial<Permissions>;
+    upl.pub = dp.pub ?? upl.pub;
+    upl.sub = dp.sub ?? upl.sub;
+    upl.resp = dp.resp ?? upl.resp;
+  }
+  return upl;
+}
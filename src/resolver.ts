@@ -0,0 +1,103 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { decodeAccount, decodeOperator } from "./jwt.ts";
+import { isIssuerOf } from "./chain.ts";
+import type { ValidationOptions } from "./validate.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+/**
+ * The nats-server configuration for an operator using the memory resolver
+ */
+export interface MemoryResolverConfig {
+  operator: string;
+  "system_account"?: string;
+  resolver: "MEMORY";
+  "resolver_preload": Record<string, string>;
+}
+
+/**
+ * Returns the nats-server configuration that trusts the operator and
+ * preloads the accounts in a memory resolver. The accounts must be issued
+ * by the operator or one of its signing keys. If the operator specifies a
+ * system account, its JWT must be one of the accounts. If an account is
+ * specified more than once, the most recently issued JWT is used.
+ * @param operator - the operator JWT
+ * @param accounts - the account JWTs
+ * @param opts - if specified, the dates of the JWTs are validated
+ */
+export function memoryResolverConfig(
+  operator: string,
+  accounts: string[],
+  opts?: Partial<ValidationOptions>,
+): MemoryResolverConfig {
+  const oc = decodeOperator(operator, opts);
+  const preload: Record<string, string> = {};
+  const issued: Record<string, number> = {};
+  accounts.forEach((a) => {
+    const ac = decodeAccount(a, opts);
+    if (!isIssuerOf(oc, ac.iss)) {
+      throw new JwtError(
+        JwtErrorCode.UntrustedIssuer,
+        `account ${ac.sub} issuer ${ac.iss} is not operator ${oc.sub} or one of its signing keys`,
+      );
+    }
+    if (issued[ac.sub] === undefined || ac.iat > issued[ac.sub]) {
+      issued[ac.sub] = ac.iat;
+      preload[ac.sub] = a;
+    }
+  });
+
+  const config: MemoryResolverConfig = {
+    operator,
+    resolver: "MEMORY",
+    resolver_preload: preload,
+  };
+  const sys = oc.nats.system_account;
+  if (sys) {
+    if (!preload[sys]) {
+      throw new JwtError(
+        JwtErrorCode.InvalidClaim,
+        `system account ${sys} is not one of the accounts`,
+      );
+    }
+    config.system_account = sys;
+  }
+  return config;
+}
+
+/**
+ * Formats the configuration in the nats-server configuration syntax,
+ * or as JSON, which the nats-server also accepts
+ * @param config
+ * @param format - defaults to "conf"
+ */
+export function fmtResolverConfig(
+  config: MemoryResolverConfig,
+  format: "conf" | "json" = "conf",
+): string {
+  if (format === "json") {
+    return JSON.stringify(config, null, 2);
+  }
+  const lines = [`operator: "${config.operator}"`];
+  if (config.system_account) {
+    lines.push(`system_account: "${config.system_account}"`);
+  }
+  lines.push(`resolver: ${config.resolver}`);
+  lines.push("resolver_preload: {");
+  Object.entries(config.resolver_preload).forEach(([id, jwt]) => {
+    lines.push(`  ${id}: "${jwt}"`);
+  });
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
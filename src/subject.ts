@@ -0,0 +1,143 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+/**
+ * Token matching exactly one token in a subject
+ */
+export const SingleWildcard = "*";
+/**
+ * Token matching one or more tokens at the end of a subject
+ */
+export const FullWildcard = ">";
+
+/**
+ * Splits the subject into its tokens, the subject is not validated
+ * @param subject
+ */
+export function tokenizeSubject(subject: string): string[] {
+  return subject.split(".");
+}
+
+/**
+ * Validates the subject and returns its tokens, throws a JwtError if the
+ * subject is not valid. A valid subject is not
+ * empty, has no whitespace, has no empty tokens, and only has a full
+ * wildcard (`>`) as its last token. If `wildcards` is false, the subject
+ * must be a literal subject.
+ * @param subject
+ * @param wildcards
+ */
+export function checkSubject(subject: string, wildcards = true): string[] {
+  if (typeof subject !== "string" || subject.length === 0) {
+    throw new JwtError(JwtErrorCode.InvalidSubject, "subject cannot be empty");
+  }
+  if (/\s/.test(subject)) {
+    throw new JwtError(
+      JwtErrorCode.InvalidSubject,
+      `subject "${subject}" cannot have whitespace`,
+    );
+  }
+  const tokens = tokenizeSubject(subject);
+  tokens.forEach((t, idx) => {
+    if (t.length === 0) {
+      throw new JwtError(
+        JwtErrorCode.InvalidSubject,
+        `subject "${subject}" cannot have empty tokens`,
+      );
+    }
+    if (t === FullWildcard && idx !== tokens.length - 1) {
+      throw new JwtError(
+        JwtErrorCode.InvalidSubject,
+        `subject "${subject}" can only have ">" as the last token`,
+      );
+    }
+    if (!wildcards && (t === FullWildcard || t === SingleWildcard)) {
+      throw new JwtError(
+        JwtErrorCode.InvalidSubject,
+        `subject "${subject}" cannot have wildcards`,
+      );
+    }
+  });
+  return tokens;
+}
+
+/**
+ * Returns true if the subject is valid
+ * @param subject
+ * @param wildcards - if false, subjects with wildcards are not valid
+ */
+export function isValidSubject(subject: string, wildcards = true): boolean {
+  try {
+    checkSubject(subject, wildcards);
+    return true;
+  } catch (_err) {
+    return false;
+  }
+}
+
+/**
+ * Returns true if the subject has `*` or `>` tokens
+ * @param subject
+ */
+export function hasWildcards(subject: string): boolean {
+  return tokenizeSubject(subject).some((t) =>
+    t === SingleWildcard || t === FullWildcard
+  );
+}
+
+/**
+ * Returns true if the subject is valid and has no wildcards
+ * @param subject
+ */
+export function isLiteralSubject(subject: string): boolean {
+  return isValidSubject(subject, false);
+}
+
+/**
+ * Returns true if all the subjects matched by `subject` are also matched
+ * by `other`. Both arguments can have wildcards.
+ * @param subject
+ * @param other
+ */
+export function isSubjectSubset(subject: string, other: string): boolean {
+  const st = tokenizeSubject(subject);
+  const ot = tokenizeSubject(other);
+  for (let i = 0; i < ot.length; i++) {
+    if (ot[i] === FullWildcard) {
+      // a full wildcard matches one or more tokens
+      return st.length > i;
+    }
+    if (i >= st.length) {
+      return false;
+    }
+    if (st[i] === FullWildcard) {
+      return false;
+    }
+    if (ot[i] !== SingleWildcard && ot[i] !== st[i]) {
+      return false;
+    }
+  }
+  return st.length === ot.length;
+}
+
+/**
+ * Returns true if the literal subject is matched by the pattern
+ * @param subject - a subject without wildcards
+ * @param pattern - a subject that may have wildcards
+ */
+export function subjectMatches(subject: string, pattern: string): boolean {
+  return isLiteralSubject(subject) && isValidSubject(pattern) &&
+    isSubjectSubset(subject, pattern);
+}
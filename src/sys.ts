@@ -0,0 +1,265 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { decodeAccount, decodeAccountDeletion } from "./jwt.ts";
+import type { ClaimsData, Operator } from "./types.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+/**
+ * Subject where account JWTs are sent to update a full resolver
+ */
+export const ClaimsUpdateSubject = "$SYS.REQ.CLAIMS.UPDATE";
+/**
+ * Subject to list the accounts stored by a full resolver
+ */
+export const ClaimsListSubject = "$SYS.REQ.CLAIMS.LIST";
+/**
+ * Subject to retrieve all the account JWTs stored by a full resolver
+ */
+export const ClaimsPackSubject = "$SYS.REQ.CLAIMS.PACK";
+/**
+ * Subject where account deletion JWTs are sent to delete accounts
+ * from a full resolver
+ */
+export const ClaimsDeleteSubject = "$SYS.REQ.CLAIMS.DELETE";
+
+/**
+ * Returns the subject to update the specified account
+ * @param id - the account id
+ */
+export function accountClaimsUpdateSubject(id: string): string {
+  return `$SYS.REQ.ACCOUNT.${id}.CLAIMS.UPDATE`;
+}
+
+/**
+ * Returns the subject to look up the JWT of the specified account
+ * @param id - the account id
+ */
+export function accountClaimsLookupSubject(id: string): string {
+  return `$SYS.REQ.ACCOUNT.${id}.CLAIMS.LOOKUP`;
+}
+
+/**
+ * A request to send to the nats-server with any NATS client
+ */
+export interface SysRequest {
+  subject: string;
+  data: Uint8Array;
+}
+
+/**
+ * Information about the server that handled a request
+ */
+export interface ServerInfo {
+  name: string;
+  host: string;
+  id: string;
+  cluster?: string;
+  domain?: string;
+  ver: string;
+  tags?: string[];
+  jetstream: boolean;
+  flags: number;
+  seq: number;
+  time: string;
+}
+
+export interface ApiError {
+  code: number;
+  description: string;
+  /**
+   * The account the error is for, set on claims update errors
+   */
+  account?: string;
+}
+
+/**
+ * The response of the nats-server to system requests, either `data`
+ * or `error` is set
+ */
+export interface ServerApiResponse<T> {
+  server: ServerInfo;
+  data?: T;
+  error?: ApiError;
+}
+
+/**
+ * The `data` of the response to a claims update
+ */
+export interface ClaimsUpdateStatus {
+  account: string;
+  code: number;
+  message?: string;
+}
+
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+function toString(data: Uint8Array | string): string {
+  return typeof data === "string" ? data : dec.decode(data);
+}
+
+/**
+ * Returns the request that updates the account JWT on the servers
+ * running a full resolver. The JWT must be an account JWT.
+ * @param jwt - the account JWT
+ * @param perAccount - if true, the request is sent to the update subject
+ * of the account instead of `$SYS.REQ.CLAIMS.UPDATE`
+ */
+export function claimsUpdateRequest(
+  jwt: string,
+  perAccount = false,
+): SysRequest {
+  const ac = decodeAccount(jwt);
+  return {
+    subject: perAccount
+      ? accountClaimsUpdateSubject(ac.sub)
+      : ClaimsUpdateSubject,
+    data: enc.encode(jwt),
+  };
+}
+
+/**
+ * Returns the request that looks up the JWT of the account
+ * @param id - the account id
+ */
+export function claimsLookupRequest(id: string): SysRequest {
+  return { subject: accountClaimsLookupSubject(id), data: new Uint8Array(0) };
+}
+
+/**
+ * Returns the request that lists the accounts stored by the servers
+ */
+export function claimsListRequest(): SysRequest {
+  return { subject: ClaimsListSubject, data: new Uint8Array(0) };
+}
+
+/**
+ * Returns the request that retrieves the account JWTs stored by a server.
+ * The server responds with a series of messages, the last one is empty.
+ * @param hash - the hash of the requester's store, if it matches the
+ * server's store nothing is sent
+ */
+export function claimsPackRequest(hash = ""): SysRequest {
+  return { subject: ClaimsPackSubject, data: enc.encode(hash) };
+}
+
+/**
+ * Returns the request that deletes the accounts listed in an account
+ * deletion JWT from the servers running a full resolver. The JWT must be
+ * issued by the operator or one of its signing keys.
+ * @param jwt - a JWT generated by `encodeAccountDeletion()`
+ * @param operator - the operator JWT or claim
+ */
+export function claimsDeleteRequest(
+  jwt: string,
+  operator: string | ClaimsData<Operator>,
+): SysRequest {
+  decodeAccountDeletion(jwt, operator);
+  return { subject: ClaimsDeleteSubject, data: enc.encode(jwt) };
+}
+
+/**
+ * Parses the JSON response of a system request
+ * @param data
+ */
+export function parseServerResponse<T = unknown>(
+  data: Uint8Array | string,
+): ServerApiResponse<T> {
+  let r: ServerApiResponse<T>;
+  try {
+    r = JSON.parse(toString(data));
+  } catch (err) {
+    throw new JwtError(
+      JwtErrorCode.InvalidFormat,
+      "server response is not valid JSON",
+      { cause: err },
+    );
+  }
+  if (typeof r !== "object" || r === null || typeof r.server !== "object") {
+    throw new JwtError(
+      JwtErrorCode.InvalidFormat,
+      "server response is missing the server information",
+    );
+  }
+  return r;
+}
+
+/**
+ * Parses the response to a claims update request
+ * @param data
+ */
+export function parseClaimsUpdateResponse(
+  data: Uint8Array | string,
+): ServerApiResponse<ClaimsUpdateStatus> {
+  return parseServerResponse<ClaimsUpdateStatus>(data);
+}
+
+/**
+ * Parses the response to a claims list request, the data is the
+ * list of account ids
+ * @param data
+ */
+export function parseClaimsListResponse(
+  data: Uint8Array | string,
+): ServerApiResponse<string[]> {
+  return parseServerResponse<string[]>(data);
+}
+
+/**
+ * Parses the response to a claims lookup request, which is the account JWT
+ * or an empty message if the account is not known. The JWT is decoded and
+ * must be for the account.
+ * @param id - the account id
+ * @param data
+ */
+export function parseClaimsLookupResponse(
+  id: string,
+  data: Uint8Array | string,
+): string | undefined {
+  const jwt = toString(data).trim();
+  if (jwt.length === 0) {
+    return undefined;
+  }
+  const ac = decodeAccount(jwt);
+  if (ac.sub !== id) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `jwt subject ${ac.sub} doesn't match account ${id}`,
+    );
+  }
+  return jwt;
+}
+
+/**
+ * Parses a message of the response to a claims pack request, each line
+ * is in the form of `<account id>|<jwt>`. Returns the JWTs by account id.
+ * @param data
+ */
+export function parseClaimsPackResponse(
+  data: Uint8Array | string,
+): Record<string, string> {
+  const jwts: Record<string, string> = {};
+  toString(data).split("\n").map((l) => l.trim()).filter((l) => l.length)
+    .forEach((l) => {
+      const idx = l.indexOf("|");
+      if (idx <= 0) {
+        throw new JwtError(
+          JwtErrorCode.InvalidFormat,
+          `pack entry "${l}" is not in the form of <account>|<jwt>`,
+        );
+      }
+      jwts[l.substring(0, idx)] = l.substring(idx + 1);
+    });
+  return jwts;
+}
@@ -16,7 +16,9 @@ export enum Types {
   Account = "account",
   User = "user",
   Activation = "activation",
+  AuthorizationRequest = "authorization_request",
   AuthorizationResponse = "authorization_response",
+  Generic = "generic",
 }
 
 export interface NatsLimits {
@@ -128,6 +130,7 @@ export type ActivationContents = {
   kind?: "stream" | "service";
 };
 export type Activation = VersionType & IssuerAccount & ActivationContents;
+export type AccountDeletion = VersionType & { accounts: string[] };
 export interface VersionType {
   type?: Types | string;
   version: number;
@@ -152,6 +152,27 @@ export function randomID(): string {
   return btoa(String.fromCharCode(...a));
 }
 
+/**
+ * Returns the current time in seconds since the epoch
+ * @param now - returns the current time in milliseconds, defaults to Date.now
+ */
+export function nowSeconds(now: () => number = Date.now): number {
+  return Math.floor(now() / 1000);
+}
+
+/**
+ * Returns the permissions and limits of the user claim, values that are
+ * not a claim are returned as they are
+ * @param u - a user claim or its permissions and limits
+ */
+export function userPermissionsLimits(
+  u: ClaimsData<User> | Partial<UserPermissionsLimits>,
+): Partial<UserPermissionsLimits> {
+  return "nats" in u
+    ? (u as ClaimsData<User>).nats
+    : u as Partial<UserPermissionsLimits>;
+}
+
 export function issuer(claim: ClaimsData<unknown>): string {
   const ia = claim.nats as IssuerAccount;
   return ia.issuer_account ? ia.issuer_account : claim.iss;
@@ -0,0 +1,133 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { ClaimsData } from "./types.ts";
+import { JwtError, JwtErrorCode } from "./errors.ts";
+
+/**
+ * A problem found while validating a claim. Issues with an "error"
+ * severity make the claim invalid, "warning" issues are informational.
+ */
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  description: string;
+  /**
+   * The error code reported if the issue causes a failure
+   */
+  code?: JwtErrorCode;
+}
+
+/**
+ * Returns an issue with an "error" severity
+ * @param description
+ * @param code - the error code reported if the issue causes a failure
+ */
+export function validationError(
+  description: string,
+  code?: JwtErrorCode,
+): ValidationIssue {
+  const issue: ValidationIssue = { severity: "error", description };
+  if (code) {
+    issue.code = code;
+  }
+  return issue;
+}
+
+/**
+ * Returns an issue with a "warning" severity
+ * @param description
+ */
+export function validationWarning(description: string): ValidationIssue {
+  return { severity: "warning", description };
+}
+
+export interface ValidationOptions {
+  /**
+   * Returns the current time in milliseconds since the epoch,
+   * defaults to Date.now
+   */
+  now: () => number;
+  /**
+   * Number of seconds of clock skew tolerated when checking
+   * `exp`, `nbf` and `iat`, defaults to 0
+   */
+  skew: number;
+  /**
+   * If true, the contents of the claim are validated as well,
+   * currently this applies to account claims
+   */
+  strict: boolean;
+}
+
+function initValidationOptions(
+  opts: Partial<ValidationOptions> = {},
+): ValidationOptions {
+  return {
+    now: opts.now ?? Date.now,
+    skew: opts.skew ?? 0,
+    strict: opts.strict ?? false,
+  };
+}
+
+/**
+ * Checks the `exp`, `nbf` and `iat` of the claim against the current time.
+ * Expired or not yet valid claims are reported as errors, claims issued in
+ * the future are reported as warnings.
+ * @param c
+ * @param opts
+ */
+export function validateDates(
+  c: ClaimsData<unknown>,
+  opts: Partial<ValidationOptions> = {},
+): ValidationIssue[] {
+  const { now, skew } = initValidationOptions(opts);
+  const ts = Math.floor(now() / 1000);
+  const issues: ValidationIssue[] = [];
+  if (c.exp && c.exp > 0 && ts - skew >= c.exp) {
+    issues.push({
+      severity: "error",
+      description: `claim is expired - exp ${c.exp}`,
+      code: JwtErrorCode.Expired,
+    });
+  }
+  if (c.nbf && c.nbf > 0 && ts + skew < c.nbf) {
+    issues.push({
+      severity: "error",
+      description: `claim is not yet valid - nbf ${c.nbf}`,
+      code: JwtErrorCode.NotYetValid,
+    });
+  }
+  if (c.iat && ts + skew < c.iat) {
+    issues.push({
+      severity: "warning",
+      description: `claim issued in the future - iat ${c.iat}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Throws a JwtError with an InvalidClaim code listing the issues with
+ * an "error" severity, warnings are ignored.
+ * @param kind - the kind of claim or entity that was validated
+ * @param issues
+ */
+export function checkIssues(kind: string, issues: ValidationIssue[]) {
+  const errs = issues.filter((i) => i.severity === "error");
+  if (errs.length) {
+    throw new JwtError(
+      JwtErrorCode.InvalidClaim,
+      `invalid ${kind} - ${errs.map((i) => i.description).join(", ")}`,
+    );
+  }
+}
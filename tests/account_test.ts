@@ -0,0 +1,501 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type {
+  Account,
+  Activation,
+  ClaimsData,
+  Export,
+  Import,
+  User,
+} from "../src/mod.ts";
+import {
+  AllUsers,
+  createAccount,
+  createUser,
+  decode,
+  encodeAccount,
+  encodeActivation,
+  encodeUser,
+  isRevoked,
+  issueActivation,
+  JwtError,
+  pruneRevocations,
+  revokeAllUsers,
+  revokeUser,
+  unrevokeUser,
+  validateAccount,
+  validateActivation,
+} from "../src/mod.ts";
+
+function claim(nats: Partial<Account>): ClaimsData<Account> {
+  return {
+    sub: createAccount().getPublicKey(),
+    nats,
+  } as ClaimsData<Account>;
+}
+
+function errors(ac: ClaimsData<Account>): string[] {
+  return validateAccount(ac).filter((i) => i.severity === "error").map((i) =>
+    i.description
+  );
+}
+
+Deno.test("account - valid account", () => {
+  const ac = claim({
+    exports: [
+      { name: "a", subject: "a.>", type: "service" },
+      { name: "b", subject: "b.*", type: "stream" },
+      {
+        name: "c",
+        subject: "c.*",
+        type: "service",
+        token_req: true,
+        account_token_position: 2,
+        service_latency: { sampling: "50%", results: "latency.c" },
+      },
+    ],
+    imports: [
+      {
+        name: "x",
+        subject: "x",
+        account: createAccount().getPublicKey(),
+        type: "stream",
+      },
+    ],
+    signing_keys: [createAccount().getPublicKey()],
+    revocations: { [createUser().getPublicKey()]: 1, "*": 2 },
+  });
+  assertEquals(validateAccount(ac), []);
+});
+
+Deno.test("account - overlapping exports", () => {
+  const ac = claim({
+    exports: [
+      { name: "a", subject: "a.>", type: "service" },
+      { name: "b", subject: "a.b", type: "service" },
+      { name: "c", subject: "a.b", type: "stream" },
+    ],
+  });
+  assertEquals(errors(ac), [
+    `overlapping subject namespace for "a.>" and "a.b"`,
+  ]);
+});
+
+Deno.test("account - invalid subjects", () => {
+  const ac = claim({
+    exports: [
+      { name: "a", subject: "a..b", type: "service" },
+      { name: "b", subject: "a.>.b", type: "stream" },
+      { name: "c", subject: "a b", type: "stream" },
+    ],
+    imports: [{
+      name: "x",
+      subject: "",
+      account: createAccount().getPublicKey(),
+      type: "stream",
+    }],
+  });
+  assertEquals(errors(ac).length, 4);
+});
+
+Deno.test("account - stream export options", () => {
+  const ac = claim({
+    exports: [
+      {
+        name: "a",
+        subject: "a",
+        type: "stream",
+        response_type: "Stream",
+        response_threshold: 1000,
+        service_latency: { sampling: "headers", results: "r" },
+      },
+    ],
+  });
+  assertEquals(errors(ac), [
+    `export "a" - response type only valid for services`,
+    `export "a" - response threshold only valid for services`,
+    `export "a" - latency tracking only permitted for services`,
+  ]);
+});
+
+Deno.test("account - account token position", () => {
+  const ac = claim({
+    exports: [
+      { name: "a", subject: "a.*", type: "service", account_token_position: 2 },
+      {
+        name: "b",
+        subject: "b.*",
+        type: "service",
+        token_req: true,
+        account_token_position: 3,
+      },
+      {
+        name: "c",
+        subject: "c.*",
+        type: "service",
+        token_req: true,
+        account_token_position: 1,
+      },
+    ],
+  });
+  const errs = errors(ac);
+  assertEquals(errs.length, 3);
+  assert(errs[0].includes("can only be used with token_req"));
+  assert(errs[1].includes("exceeds length of subject"));
+  assert(errs[2].includes("must match a *"));
+});
+
+Deno.test("account - imports", () => {
+  const ac = claim({});
+  const other = createAccount().getPublicKey();
+  ac.nats.imports = [
+    { name: "a", subject: "a", account: ac.sub, type: "stream" },
+    { name: "b", subject: "b", account: "hello", type: "stream" },
+    { name: "c", subject: "c", account: other, type: "service" },
+    { name: "d", subject: "d", account: other, type: "service", to: "c" },
+  ];
+  const issues = validateAccount(ac);
+  assertEquals(issues.filter((i) => i.severity === "warning").length, 1);
+  const errs = errors(ac);
+  assertEquals(errs.length, 3);
+  assert(errs[0].includes("cannot import from itself"));
+  assert(errs[1].includes("is not a valid account public key"));
+  assertEquals(errs[2], `overlapping subject namespace for "c"`);
+});
+
+Deno.test("account - revocations and signing keys", () => {
+  const akp = createAccount().getPublicKey();
+  const ac = claim({
+    exports: [{
+      name: "a",
+      subject: "a",
+      type: "stream",
+      revocations: { [createUser().getPublicKey()]: 1, [akp]: 1 },
+    }],
+    signing_keys: [createUser().getPublicKey()],
+    revocations: { [akp]: 1 },
+  });
+  assertEquals(errors(ac).length, 3);
+});
+
+Deno.test("account - strict encode and decode", async () => {
+  const akp = createAccount();
+  const bad = {
+    exports: [
+      { name: "a", subject: "a.>", type: "service" },
+      { name: "b", subject: "a.b", type: "service" },
+    ],
+  } as Partial<Account>;
+
+  await assertRejects(
+    () => encodeAccount("A", akp, bad, { strict: true }),
+    JwtError,
+    "overlapping subject namespace",
+  );
+
+  const token = await encodeAccount("A", akp, bad);
+  decode(token);
+  decode(token, {});
+  assertThrows(
+    () => {
+      decode(token, { strict: true });
+    },
+    JwtError,
+    "overlapping subject namespace",
+  );
+});
+
+Deno.test("account - revoke users", () => {
+  const u1 = createUser();
+  const u2 = createUser();
+  const a: Partial<Account> = {};
+  revokeUser(a, u1, 100);
+  revokeUser(a, u2.getPublicKey(), 200);
+  assertEquals(a.revocations, {
+    [u1.getPublicKey()]: 100,
+    [u2.getPublicKey()]: 200,
+  });
+  unrevokeUser(a, u1);
+  assertEquals(a.revocations, { [u2.getPublicKey()]: 200 });
+
+  revokeAllUsers(a, 300);
+  assertEquals(a.revocations?.[AllUsers], 300);
+  unrevokeUser(a, AllUsers);
+  assertEquals(a.revocations?.[AllUsers], undefined);
+
+  assertThrows(() => revokeUser(a, createAccount()), JwtError);
+
+  const now = Math.floor(Date.now() / 1000);
+  const b = revokeUser({}, u1);
+  assert(b.revocations![u1.getPublicKey()] >= now);
+});
+
+Deno.test("account - prune revocations", () => {
+  const u1 = createUser();
+  const u2 = createUser();
+  const u3 = createUser();
+  const a: Partial<Account> = {};
+  revokeUser(a, u1, 100);
+  revokeUser(a, u2, 500);
+  revokeUser(a, u3, 1000);
+  pruneRevocations(a, 600, 1050);
+  assertEquals(a.revocations, {
+    [u2.getPublicKey()]: 500,
+    [u3.getPublicKey()]: 1000,
+  });
+  // revoking all users makes older revocations redundant
+  revokeAllUsers(a, 600);
+  pruneRevocations(a, 600, 1050);
+  assertEquals(a.revocations, {
+    [AllUsers]: 600,
+    [u3.getPublicKey()]: 1000,
+  });
+});
+
+Deno.test("account - is revoked", async () => {
+  const akp = createAccount();
+  const ukp = createUser();
+  const uc = decode<User>(await encodeUser("U", ukp, akp));
+  const ac = decode<Account>(await encodeAccount("A", akp));
+  assertEquals(isRevoked(ac, uc), false);
+
+  revokeUser(ac.nats, ukp, uc.iat - 1);
+  assertEquals(isRevoked(ac, uc), false);
+  revokeUser(ac.nats, ukp, uc.iat);
+  assertEquals(isRevoked(ac, uc), true);
+  unrevokeUser(ac.nats, ukp);
+  assertEquals(isRevoked(ac, uc), false);
+
+  revokeAllUsers(ac.nats, uc.iat + 10);
+  assertEquals(isRevoked(ac, uc), true);
+
+  // revocations survive encoding
+  const token = await encodeAccount("A", akp, ac.nats);
+  assertEquals(isRevoked(decode<Account>(token), uc), true);
+});
+
+Deno.test("account - validate activation", async () => {
+  const exporter = createAccount();
+  const sk = createAccount();
+  const importer = createAccount().getPublicKey();
+  const ec = decode<Account>(
+    await encodeAccount("E", exporter, {
+      signing_keys: [sk.getPublicKey()],
+      exports: [
+        { name: "public", subject: "public.>", type: "stream" },
+        {
+          name: "private",
+          subject: "private.*",
+          type: "service",
+          token_req: true,
+          account_token_position: 2,
+        },
+      ],
+    }),
+  );
+
+  const im: Import = {
+    name: "p",
+    subject: "public.a",
+    account: exporter.getPublicKey(),
+    type: "stream",
+  };
+  assertEquals(validateActivation(ec, importer, im), []);
+
+  const pim: Import = {
+    name: "p",
+    subject: `private.${importer}`,
+    account: exporter.getPublicKey(),
+    type: "service",
+  };
+  let issues = validateActivation(ec, importer, pim);
+  assertEquals(
+    issues[0].description,
+    `export "private.*" requires an activation token`,
+  );
+
+  pim.token = await encodeActivation("p", importer, exporter, "service", {
+    subject: `private.${importer}`,
+  }, { signer: sk });
+  assertEquals(validateActivation(ec, importer, pim), []);
+
+  // wrong kind and subject
+  pim.token = await encodeActivation("p", importer, exporter, "stream", {
+    subject: "private.other",
+  });
+  issues = validateActivation(ec, importer, pim);
+  assertEquals(issues.length, 2);
+
+  // not issued by the exporter
+  pim.token = await encodeActivation(
+    "p",
+    importer,
+    createAccount(),
+    "service",
+    {
+      subject: `private.${importer}`,
+    },
+  );
+  issues = validateActivation(ec, importer, pim);
+  assert(issues[0].description.includes("is not the exporter"));
+
+  // expired
+  pim.token = await encodeActivation("p", importer, exporter, "service", {
+    subject: `private.${importer}`,
+  }, { exp: Math.floor(Date.now() / 1000) - 10 });
+  issues = validateActivation(ec, importer, pim);
+  assert(issues[0].description.includes("expired"));
+
+  // for a different account
+  const other = createAccount().getPublicKey();
+  issues = validateActivation(ec, other, pim);
+  assert(issues[0].description.includes("token position"));
+});
+
+Deno.test("account - validate activation revocations", async () => {
+  const exporter = createAccount();
+  const importer = createAccount().getPublicKey();
+  const token = await encodeActivation("p", importer, exporter, "service", {
+    subject: "private",
+  });
+  const im: Import = {
+    name: "p",
+    subject: "private",
+    account: exporter.getPublicKey(),
+    type: "service",
+    token,
+  };
+  const ac = decode<Activation>(token);
+  const exports: Export[] = [
+    { name: "private", subject: "private", type: "service", token_req: true },
+  ];
+  let ec = decode<Account>(await encodeAccount("E", exporter, { exports }));
+  assertEquals(validateActivation(ec, importer, im), []);
+
+  exports[0].revocations = { [importer]: ac.iat };
+  ec = decode<Account>(await encodeAccount("E", exporter, { exports }));
+  assertEquals(
+    validateActivation(ec, importer, im)[0].description,
+    `activation for ${importer} was revoked`,
+  );
+
+  exports[0].revocations = { "*": ac.iat - 1 };
+  ec = decode<Account>(await encodeAccount("E", exporter, { exports }));
+  assertEquals(validateActivation(ec, importer, im), []);
+
+  // no matching export
+  im.subject = "other";
+  assertEquals(
+    validateActivation(ec, importer, im)[0].description,
+    `no service export matches "other"`,
+  );
+});
+
+Deno.test("account - issue activation", async () => {
+  const exporter = createAccount();
+  const sk = createAccount();
+  const importer = createAccount().getPublicKey();
+  const ec = decode<Account>(
+    await encodeAccount("E", exporter, {
+      signing_keys: [sk.getPublicKey()],
+      exports: [
+        { name: "public", subject: "public.>", type: "stream" },
+        {
+          name: "private",
+          subject: "private.*.q",
+          type: "service",
+          token_req: true,
+          account_token_position: 2,
+        },
+        {
+          name: "events",
+          subject: "events.>",
+          type: "stream",
+          token_req: true,
+        },
+      ],
+    }),
+  );
+
+  let grant = await issueActivation(ec, "private", importer, exporter);
+  assertEquals(grant.import, {
+    name: "private",
+    subject: `private.${importer}.q`,
+    account: exporter.getPublicKey(),
+    type: "service",
+    token: grant.jwt,
+  });
+  let ac = decode<Activation>(grant.jwt);
+  assertEquals(ac.iss, exporter.getPublicKey());
+  assertEquals(ac.sub, importer);
+  assertEquals(ac.nats.subject, `private.${importer}.q`);
+  assertEquals(ac.exp, undefined);
+  assertEquals(validateActivation(ec, importer, grant.import), []);
+
+  // by subject, with a signing key and an expiration
+  const now = Date.now() + 3_600_000;
+  grant = await issueActivation(ec, "events.>", importer, sk, {
+    name: "ev",
+    expiresIn: 60,
+    now: () => now,
+  });
+  ac = decode<Activation>(grant.jwt);
+  assertEquals(ac.iss, sk.getPublicKey());
+  assertEquals(ac.nats.issuer_account, exporter.getPublicKey());
+  assertEquals(ac.name, "ev");
+  assertEquals(ac.exp, Math.floor(now / 1000) + 60);
+  assertEquals(grant.import.name, "ev");
+  assertEquals(grant.import.subject, "events.>");
+  assertEquals(validateActivation(ec, importer, grant.import), []);
+
+  // the activation is scoped to the importer
+  const other = createAccount().getPublicKey();
+  grant = await issueActivation(ec, "private", importer, exporter);
+  assert(validateActivation(ec, other, grant.import).length > 0);
+
+  await assertRejects(
+    () => issueActivation(ec, "missing", importer, exporter),
+    JwtError,
+    `has no export named "missing"`,
+  );
+  await assertRejects(
+    () => issueActivation(ec, "public", importer, exporter),
+    JwtError,
+    "doesn't require an activation token",
+  );
+  await assertRejects(
+    () => issueActivation(ec, "private", importer, createAccount()),
+    JwtError,
+    "is not exporter",
+  );
+  await assertRejects(
+    () => issueActivation(ec, "private", createUser(), exporter),
+    JwtError,
+  );
+});
+
+Deno.test("account - issue activation defaults name to subject", async () => {
+  const exporter = createAccount();
+  const importer = createAccount().getPublicKey();
+  const ec = decode<Account>(
+    await encodeAccount("E", exporter, {
+      exports: [{ name: "", subject: "q", type: "service", token_req: true }],
+    }),
+  );
+  const grant = await issueActivation(ec, "q", importer, exporter);
+  assertEquals(decode<Activation>(grant.jwt).name, "q");
+  assertEquals(grant.import.name, "q");
+  assertEquals(validateActivation(ec, importer, grant.import), []);
+});
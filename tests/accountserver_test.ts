@@ -0,0 +1,172 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals } from "@std/assert";
+import {
+  createAccount,
+  createOperator,
+  encodeAccount,
+  encodeOperator,
+  newAccountServerHandler,
+  newDirStore,
+  newMemoryFileSystem,
+} from "../src/mod.ts";
+
+const base = "http://localhost:9090/jwt/v1";
+
+async function setup() {
+  const okp = createOperator();
+  const sk = createOperator();
+  const operator = await encodeOperator("O", okp, {
+    signing_keys: [sk.getPublicKey()],
+  });
+  const store = newDirStore(newMemoryFileSystem(), "jwts");
+  const handler = newAccountServerHandler({ operator, store });
+  return { okp, sk, operator, store, handler };
+}
+
+function post(id: string, jwt: string): Request {
+  return new Request(`${base}/accounts/${id}`, { method: "POST", body: jwt });
+}
+
+Deno.test("account server - get and post", async () => {
+  const { sk, operator, handler } = await setup();
+  const akp = createAccount();
+  const id = akp.getPublicKey();
+
+  let r = await handler(new Request(`${base}/accounts/${id}`));
+  assertEquals(r.status, 404);
+  await r.body?.cancel();
+
+  const jwt = await encodeAccount("A", akp, {}, { signer: sk });
+  r = await handler(post(id, jwt));
+  assertEquals(r.status, 200);
+  await r.body?.cancel();
+
+  r = await handler(new Request(`${base}/accounts/${id}`));
+  assertEquals(r.status, 200);
+  assertEquals(r.headers.get("content-type"), "application/jwt");
+  assertEquals(await r.text(), jwt);
+
+  r = await handler(new Request(`${base}/operator`));
+  assertEquals(await r.text(), operator);
+
+  // posting the same JWT again is fine
+  r = await handler(post(id, jwt));
+  assertEquals(r.status, 200);
+  await r.body?.cancel();
+});
+
+Deno.test("account server - rejects bad posts", async () => {
+  const { okp, handler } = await setup();
+  const akp = createAccount();
+  const id = akp.getPublicKey();
+
+  // mismatched subject
+  const other = await encodeAccount("X", createAccount(), {}, { signer: okp });
+  let r = await handler(post(id, other));
+  assertEquals(r.status, 400);
+  await r.body?.cancel();
+
+  // untrusted issuer
+  const untrusted = await encodeAccount("A", akp, {}, {
+    signer: createOperator(),
+  });
+  r = await handler(post(id, untrusted));
+  assertEquals(r.status, 403);
+  await r.body?.cancel();
+
+  // not a JWT
+  r = await handler(post(id, "hello"));
+  assertEquals(r.status, 400);
+  await r.body?.cancel();
+
+  // expired
+  const expired = await encodeAccount("A", akp, {}, {
+    signer: okp,
+    exp: Math.floor(Date.now() / 1000) - 10,
+  });
+  r = await handler(post(id, expired));
+  assertEquals(r.status, 400);
+  await r.body?.cancel();
+
+  // older
+  const older = await encodeAccount("A", akp, {}, { signer: okp });
+  await new Promise((r) => setTimeout(r, 1100));
+  const newer = await encodeAccount("A", akp, {}, { signer: okp });
+  r = await handler(post(id, newer));
+  assertEquals(r.status, 200);
+  await r.body?.cancel();
+  r = await handler(post(id, older));
+  assertEquals(r.status, 409);
+  await r.body?.cancel();
+
+  r = await handler(new Request(`${base}/accounts/${id}`));
+  assertEquals(await r.text(), newer);
+});
+
+Deno.test("account server - replaces corrupt entries", async () => {
+  const okp = createOperator();
+  const operator = await encodeOperator("O", okp);
+  const fs = newMemoryFileSystem();
+  const store = newDirStore(fs, "jwts");
+  const handler = newAccountServerHandler({ operator, store });
+  const akp = createAccount();
+  const id = akp.getPublicKey();
+  await fs.mkdir("jwts");
+  await fs.writeFile(`jwts/${id}.jwt`, new TextEncoder().encode("garbage"));
+
+  const jwt = await encodeAccount("A", akp, {}, { signer: okp });
+  const r = await handler(post(id, jwt));
+  assertEquals(r.status, 200);
+  await r.body?.cancel();
+  assertEquals(await store.load(id), jwt);
+});
+
+Deno.test("account server - routes", async () => {
+  const { handler } = await setup();
+  let r = await handler(new Request("http://localhost/other"));
+  assertEquals(r.status, 404);
+  await r.body?.cancel();
+  r = await handler(
+    new Request(`${base}/accounts/A`, { method: "DELETE" }),
+  );
+  assertEquals(r.status, 405);
+  await r.body?.cancel();
+
+  // ids must be account keys
+  for (
+    const id of [
+      "..%2Fsecret%2Fprivate",
+      "%2E%2E%2F%2E%2E%2Fetc",
+      createOperator().getPublicKey(),
+      "%E0%A4%A",
+    ]
+  ) {
+    r = await handler(new Request(`${base}/accounts/${id}`));
+    assertEquals(r.status, 400);
+    await r.body?.cancel();
+    r = await handler(post(id, "x"));
+    assertEquals(r.status, 400);
+    await r.body?.cancel();
+  }
+
+  const operator = await encodeOperator("O", createOperator());
+  const custom = newAccountServerHandler({
+    operator,
+    store: newDirStore(newMemoryFileSystem(), "jwts"),
+    prefix: "/api/",
+  });
+  r = await custom(new Request("http://localhost/api/operator"));
+  assertEquals(await r.text(), operator);
+});
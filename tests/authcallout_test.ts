@@ -0,0 +1,338 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, assertEquals, assertExists, assertThrows } from "@std/assert";
+import type {
+  AuthorizationRequest,
+  AuthorizationResponse,
+  KeyPair,
+  User,
+} from "../src/mod.ts";
+import {
+  AuthorizationRequestAudience,
+  createAccount,
+  createCurve,
+  createServer,
+  createUser,
+  decode,
+  decodeAuthorizationRequest,
+  encodeAccount,
+  encodeAuthorizationRequest,
+  encodeGeneric,
+  encodeUser,
+  JwtError,
+  JwtErrorCode,
+  newAuthorizationResponder,
+  Types,
+} from "../src/mod.ts";
+
+function request(
+  server: KeyPair,
+  user: KeyPair,
+  xkey?: string,
+): Partial<AuthorizationRequest> {
+  return {
+    server_id: {
+      name: "S",
+      host: "127.0.0.1",
+      id: server.getPublicKey(),
+      xkey,
+    },
+    user_nkey: user.getPublicKey(),
+    client_info: { host: "127.0.0.1", kind: "Client", type: "nats" },
+    connect_opts: { user: "bob", pass: "secret", protocol: 1 },
+  };
+}
+
+Deno.test("authcallout - decode request", async () => {
+  const server = createServer();
+  const user = createUser();
+  const token = await encodeAuthorizationRequest(
+    user,
+    server,
+    request(server, user),
+  );
+
+  const rc = decodeAuthorizationRequest(token);
+  assertEquals(rc.iss, server.getPublicKey());
+  assertEquals(rc.sub, user.getPublicKey());
+  assertEquals(rc.aud, AuthorizationRequestAudience);
+  assertEquals(rc.nats.type, Types.AuthorizationRequest);
+  assertEquals(rc.nats.server_id?.id, server.getPublicKey());
+  assertEquals(rc.nats.connect_opts?.user, "bob");
+
+  // bytes work too
+  const rb = decodeAuthorizationRequest(new TextEncoder().encode(token));
+  assertEquals(rb.nats.user_nkey, user.getPublicKey());
+});
+
+Deno.test("authcallout - decode encrypted request", async () => {
+  const server = createServer();
+  const user = createUser();
+  const serverXkey = createCurve();
+  const serviceXkey = createCurve();
+  const token = await encodeAuthorizationRequest(
+    user,
+    server,
+    request(server, user, serverXkey.getPublicKey()),
+  );
+  const sealed = serverXkey.seal(
+    new TextEncoder().encode(token),
+    serviceXkey.getPublicKey(),
+  );
+
+  const rc = decodeAuthorizationRequest(sealed, {
+    xkey: serviceXkey,
+    serverXkey: serverXkey.getPublicKey(),
+  });
+  assertEquals(rc.sub, user.getPublicKey());
+
+  let err = assertThrows(
+    () => {
+      decodeAuthorizationRequest(sealed, { xkey: serviceXkey });
+    },
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidEncryption);
+
+  err = assertThrows(
+    () => {
+      decodeAuthorizationRequest(sealed, {
+        xkey: createCurve(),
+        serverXkey: serverXkey.getPublicKey(),
+      });
+    },
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidEncryption);
+
+  // an encrypted request must be encrypted by the server in the request
+  const other = createCurve();
+  err = assertThrows(
+    () => {
+      decodeAuthorizationRequest(
+        other.seal(
+          new TextEncoder().encode(token),
+          serviceXkey.getPublicKey(),
+        ),
+        { xkey: serviceXkey, serverXkey: other.getPublicKey() },
+      );
+    },
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidEncryption);
+});
+
+Deno.test("authcallout - rejects bad requests", async () => {
+  const akp = createAccount();
+  const server = createServer();
+  const user = createUser();
+
+  const { server_id: _, ...noServer } = request(server, user);
+  type test = [string, JwtErrorCode];
+  const tests: test[] = [
+    ["", JwtErrorCode.InvalidFormat],
+    [await encodeAccount("A", akp), JwtErrorCode.UnexpectedClaimType],
+    [
+      await encodeGeneric("", server, Types.AuthorizationRequest, {
+        user_nkey: user.getPublicKey(),
+      }),
+      JwtErrorCode.InvalidAudience,
+    ],
+    [
+      await encodeGeneric("", akp, Types.AuthorizationRequest, {
+        user_nkey: user.getPublicKey(),
+      }, { aud: AuthorizationRequestAudience }),
+      JwtErrorCode.UnexpectedKeyType,
+    ],
+    [
+      await encodeAuthorizationRequest(user, server, request(server, user), {
+        exp: Math.floor(Date.now() / 1000) - 10,
+      }),
+      JwtErrorCode.Expired,
+    ],
+    [
+      await encodeAuthorizationRequest(user, server, noServer),
+      JwtErrorCode.InvalidClaim,
+    ],
+  ];
+  tests.forEach(([token, code]) => {
+    const err = assertThrows(() => {
+      decodeAuthorizationRequest(token);
+    }, JwtError);
+    assertEquals((err as JwtError).code, code);
+  });
+});
+
+// stands in for the nats-server - sends a request and
+// returns the decoded response
+async function serverRequest(
+  responder: (data: Uint8Array, xkey?: string) => Promise<Uint8Array>,
+  user: KeyPair,
+  connect: { user?: string; pass?: string } = {},
+  serviceXkey?: string,
+) {
+  const server = createServer();
+  const serverXkey = serviceXkey ? createCurve() : undefined;
+  const req = request(server, user, serverXkey?.getPublicKey());
+  const token = await encodeAuthorizationRequest(user, server, {
+    ...req,
+    connect_opts: { ...connect, protocol: 1 },
+  });
+  let data: Uint8Array = new TextEncoder().encode(token);
+  if (serverXkey && serviceXkey) {
+    data = serverXkey.seal(data, serviceXkey);
+  }
+  let r = await responder(data, serverXkey?.getPublicKey());
+  if (serverXkey && serviceXkey) {
+    const opened = serverXkey.open(r, serviceXkey);
+    assertExists(opened);
+    r = opened;
+  }
+  const rc = decode<AuthorizationResponse>(new TextDecoder().decode(r));
+  assertEquals(rc.sub, user.getPublicKey());
+  assertEquals(rc.aud, server.getPublicKey());
+  assertEquals(rc.nats.type, Types.AuthorizationResponse);
+  return rc;
+}
+
+Deno.test("authcallout - responder encodes users", async () => {
+  const akp = createAccount();
+  const responder = newAuthorizationResponder({ issuer: akp }, (req) => {
+    if (req.nats.connect_opts?.pass !== "secret") {
+      return { error: "bad password" };
+    }
+    return { user: { pub: { allow: ["a"] } } };
+  });
+
+  const user = createUser();
+  const rc = await serverRequest(responder, user, {
+    user: "bob",
+    pass: "secret",
+  });
+  assertEquals(rc.iss, akp.getPublicKey());
+  assertEquals(rc.nats.error, undefined);
+  const uc = decode<User>(rc.nats.jwt!);
+  assertEquals(uc.sub, user.getPublicKey());
+  assertEquals(uc.name, "bob");
+  assertEquals(uc.iss, akp.getPublicKey());
+  assertEquals(uc.nats.pub?.allow, ["a"]);
+
+  const denied = await serverRequest(responder, createUser(), {
+    user: "bob",
+    pass: "nope",
+  });
+  assertEquals(denied.nats.jwt, undefined);
+  assertEquals(denied.nats.error, "bad password");
+});
+
+Deno.test("authcallout - responder errors and jwts", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const target = createAccount();
+  const stranger = createAccount();
+  let jwt = "";
+  const responder = newAuthorizationResponder(
+    {
+      issuer: akp.getPublicKey(),
+      signer: sk,
+      allowedAccounts: [target.getPublicKey()],
+    },
+    async (req) => {
+      switch (req.nats.connect_opts?.user) {
+        case "jwt":
+          jwt = await encodeUser(
+            "x",
+            req.nats.user_nkey!,
+            akp.getPublicKey(),
+            {},
+            {
+              signer: sk,
+            },
+          );
+          return { jwt };
+        case "wrong user":
+          return {
+            jwt: await encodeUser("x", createUser().getPublicKey(), akp),
+          };
+        case "wrong issuer":
+          return { jwt: await encodeUser("x", req.nats.user_nkey!, stranger) };
+        case "other jwt":
+          return { jwt: await encodeUser("x", req.nats.user_nkey!, target) };
+        case "stranger":
+          return { user: {}, issuer: stranger };
+        case "bad":
+          return { jwt: "hello" };
+        case "other":
+          return { user: {}, name: "other", issuer: target };
+        default:
+          throw new Error("unknown user");
+      }
+    },
+  );
+
+  let rc = await serverRequest(responder, createUser(), { user: "who" });
+  assertEquals(rc.iss, sk.getPublicKey());
+  assertEquals(rc.nats.issuer_account, akp.getPublicKey());
+  assertEquals(rc.nats.error, "unknown user");
+
+  rc = await serverRequest(responder, createUser(), { user: "jwt" });
+  assertEquals(rc.nats.jwt, jwt);
+  assertEquals(rc.nats.error, undefined);
+
+  rc = await serverRequest(responder, createUser(), { user: "wrong user" });
+  assertEquals(rc.nats.jwt, undefined);
+  assert(rc.nats.error?.includes("doesn't match user_nkey"));
+
+  rc = await serverRequest(responder, createUser(), { user: "wrong issuer" });
+  assertEquals(rc.nats.jwt, undefined);
+  assertEquals(
+    rc.nats.error,
+    `user issuer account ${stranger.getPublicKey()} is not ${akp.getPublicKey()} or an allowed account`,
+  );
+
+  rc = await serverRequest(responder, createUser(), { user: "stranger" });
+  assertEquals(rc.nats.jwt, undefined);
+  assert(rc.nats.error?.includes("is not"));
+
+  rc = await serverRequest(responder, createUser(), { user: "other jwt" });
+  assertEquals(decode<User>(rc.nats.jwt!).iss, target.getPublicKey());
+
+  rc = await serverRequest(responder, createUser(), { user: "bad" });
+  assertEquals(rc.nats.jwt, undefined);
+  assert(rc.nats.error);
+
+  rc = await serverRequest(responder, createUser(), { user: "other" });
+  const uc = decode<User>(rc.nats.jwt!);
+  assertEquals(uc.iss, target.getPublicKey());
+  assertEquals(uc.name, "other");
+});
+
+Deno.test("authcallout - responder encrypts", async () => {
+  const akp = createAccount();
+  const xkp = createCurve();
+  const responder = newAuthorizationResponder(
+    { issuer: akp, xkey: xkp },
+    () => {
+      return { user: {} };
+    },
+  );
+  const user = createUser();
+  const rc = await serverRequest(
+    responder,
+    user,
+    { user: "bob" },
+    xkp.getPublicKey(),
+  );
+  assertEquals(decode<User>(rc.nats.jwt!).sub, user.getPublicKey());
+});
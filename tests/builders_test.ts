@@ -0,0 +1,172 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  AccountBuilder,
+  createAccount,
+  createOperator,
+  createUser,
+  decodeAccount,
+  decodeOperator,
+  decodeUser,
+  encodeAccount,
+  encodeOperator,
+  encodeUser,
+  JwtError,
+  JwtErrorCode,
+  OperatorBuilder,
+  UserBuilder,
+} from "../src/mod.ts";
+
+Deno.test("builders - operator", async () => {
+  const okp = createOperator();
+  const sk = createOperator();
+  const akp = createAccount();
+  const b = new OperatorBuilder("O", okp)
+    .addSigningKey(sk)
+    .setSystemAccount(akp)
+    .addServiceUrl("nats://localhost:4222")
+    .addTags("Prod")
+    .expiresIn(60);
+  const oc = decodeOperator(await b.sign());
+  assertEquals(oc.name, "O");
+  assertEquals(oc.sub, okp.getPublicKey());
+  assertEquals(oc.nats.signing_keys, [sk.getPublicKey()]);
+  assertEquals(oc.nats.system_account, akp.getPublicKey());
+  assertEquals(oc.nats.tags, ["prod"]);
+  assertEquals(typeof oc.exp, "number");
+
+  const ec = decodeOperator(await encodeOperator("O", okp, b.build()));
+  assertEquals(ec.nats, oc.nats);
+
+  assertThrows(() => b.addServiceUrl("http://localhost"), JwtError);
+  assertThrows(() => b.setSystemAccount(createUser()), JwtError);
+  assertEquals(b.build().operator_service_urls, ["nats://localhost:4222"]);
+  assertEquals(b.build().system_account, akp.getPublicKey());
+});
+
+Deno.test("builders - account", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const other = createAccount();
+  const sk = createAccount();
+  const b = new AccountBuilder("A", akp)
+    .addExport({ subject: "q.>", type: "service" })
+    .addImport({
+      subject: "s.>",
+      type: "stream",
+      account: other.getPublicKey(),
+    })
+    .setLimits({ conn: 10 })
+    .setJetStreamTier("R3", { mem_storage: 1024, disk_storage: -1 })
+    .addScopedSigningKey(sk, "admin", { pub: { allow: ["a.>"] } });
+
+  const ac = decodeAccount(await b.sign(okp));
+  assertEquals(ac.iss, okp.getPublicKey());
+  assertEquals(ac.nats.exports?.[0].name, "q.>");
+  assertEquals(ac.nats.imports?.[0].account, other.getPublicKey());
+  assertEquals(ac.nats.limits?.conn, 10);
+  assertEquals(ac.nats.limits?.tiered_limits?.R3?.mem_storage, 1024);
+  assertEquals(ac.nats.signing_keys?.length, 1);
+
+  const ec = decodeAccount(
+    await encodeAccount("A", akp, b.build(), { signer: okp }),
+  );
+  assertEquals(ec.nats, ac.nats);
+});
+
+Deno.test("builders - account rejects invalid changes", () => {
+  const akp = createAccount();
+  const b = new AccountBuilder("A", akp)
+    .addExport({ subject: "q.>", type: "service" });
+  // overlapping exports
+  const err = assertThrows(
+    () => b.addExport({ subject: "q.a", type: "service" }),
+    JwtError,
+    "invalid account",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidClaim);
+  assertEquals(b.build().exports?.length, 1);
+
+  assertThrows(
+    () =>
+      b.addImport({
+        subject: "a",
+        type: "stream",
+        account: akp.getPublicKey(),
+      }),
+    JwtError,
+  );
+  assertEquals(b.build().imports, undefined);
+
+  b.setLimits({ mem_storage: 1024 });
+  assertThrows(
+    () => b.setJetStreamTier("R1", { mem_storage: 1024 }),
+    JwtError,
+    "exclusive",
+  );
+  assertEquals(b.build().limits?.tiered_limits, undefined);
+});
+
+Deno.test("builders - user", async () => {
+  const akp = createAccount();
+  const ukp = createUser();
+  const b = new UserBuilder("U", ukp)
+    .allowPub("a.>", "b")
+    .denyPub("a.secret")
+    .allowSub("q", "r.> workers")
+    .denySub("x")
+    .allowResponses(1, 0)
+    .setLimits({ subs: 10 })
+    .addSourceNetwork("10.0.0.0/8")
+    .addTimeRange("08:00:00", "17:00:00")
+    .setLocale("UTC")
+    .allowConnectionTypes("STANDARD", "WEBSOCKET")
+    .notBefore(new Date(0))
+    .expiresAt(Math.floor(Date.now() / 1000) + 60);
+
+  const uc = decodeUser(await b.sign(akp));
+  assertEquals(uc.iss, akp.getPublicKey());
+  assertEquals(uc.nats.pub, { allow: ["a.>", "b"], deny: ["a.secret"] });
+  assertEquals(uc.nats.sub, { allow: ["q", "r.> workers"], deny: ["x"] });
+  assertEquals(uc.nats.subs, 10);
+  assertEquals(uc.nats.data, -1);
+  assertEquals(uc.nats.allowed_connection_types, ["STANDARD", "WEBSOCKET"]);
+
+  const ec = decodeUser(await encodeUser("U", ukp, akp, b.build()));
+  assertEquals(ec.nats, uc.nats);
+
+  assertThrows(() => b.allowPub("a..b"), JwtError);
+  assertThrows(() => b.allowPub("a b"), JwtError);
+  assertThrows(() => b.addSourceNetwork("10.0.0.1"), JwtError);
+  assertThrows(() => b.addTimeRange("8am", "5pm"), JwtError);
+  assertEquals(b.build().pub?.allow, ["a.>", "b"]);
+  assertEquals(b.build().src, ["10.0.0.0/8"]);
+});
+
+Deno.test("builders - scoped user", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const account = new AccountBuilder("A", akp)
+    .addScopedSigningKey(sk, "admin", { pub: { allow: ["a.>"] } });
+  const ac = decodeAccount(await account.sign(akp));
+  assertEquals(ac.iss, akp.getPublicKey());
+
+  const b = new UserBuilder("U", createUser()).scope();
+  assertThrows(() => b.allowPub("a"), JwtError, "scoped users");
+  const uc = decodeUser(await b.sign(sk, akp));
+  assertEquals(uc.iss, sk.getPublicKey());
+  assertEquals(uc.nats.issuer_account, akp.getPublicKey());
+  assertEquals(uc.nats.pub, undefined);
+});
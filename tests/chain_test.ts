@@ -0,0 +1,202 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import type { User } from "../src/mod.ts";
+import {
+  createAccount,
+  createOperator,
+  createUser,
+  decode,
+  encodeAccount,
+  encodeOperator,
+  encodeUser,
+  JwtError,
+  newScopedSigner,
+  verifyChain,
+} from "../src/mod.ts";
+
+Deno.test("chain - operator account user", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const ukp = createUser();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  const u = await encodeUser("U", ukp, akp);
+
+  const chain = verifyChain(u, a, [o]);
+  assertEquals(chain.operator.sub, okp.getPublicKey());
+  assertEquals(chain.account.sub, akp.getPublicKey());
+  assertEquals(chain.user.sub, ukp.getPublicKey());
+});
+
+Deno.test("chain - signing keys", async () => {
+  const okp = createOperator();
+  const osk = createOperator();
+  const akp = createAccount();
+  const ask = createAccount();
+  const scoped = createAccount();
+  const o = await encodeOperator("O", okp, {
+    signing_keys: [osk.getPublicKey()],
+  });
+  const a = await encodeAccount("A", akp, {
+    signing_keys: [ask.getPublicKey(), newScopedSigner(scoped, "admin", {})],
+  }, { signer: osk });
+
+  let u = await encodeUser("U", createUser(), akp, {}, { signer: ask });
+  verifyChain(u, a, [o]);
+  u = await encodeUser("U", createUser(), akp, {}, { signer: scoped });
+  verifyChain(u, a, [o]);
+
+  // signing key that is not on the account
+  u = await encodeUser("U", createUser(), akp, {}, {
+    signer: createAccount(),
+  });
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    Error,
+    "is not a signing key of account",
+  );
+});
+
+Deno.test("chain - rejects untrusted operator", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: createOperator() });
+  const u = await encodeUser("U", createUser(), akp);
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    Error,
+    "is not a trusted operator",
+  );
+});
+
+Deno.test("chain - rejects user from a different account", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  let u = await encodeUser("U", createUser(), createAccount());
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    Error,
+    "doesn't match account",
+  );
+
+  u = await encodeUser("U", createUser(), createAccount(), {}, {
+    signer: akp,
+  });
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    Error,
+    "issuer_account",
+  );
+});
+
+Deno.test("chain - rejects wrong claim types", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  const u = await encodeUser("U", createUser(), akp);
+  assertThrows(
+    () => {
+      verifyChain(a, a, [o]);
+    },
+    Error,
+    "wanted user",
+  );
+  assertThrows(
+    () => {
+      verifyChain(u, u, [o]);
+    },
+    Error,
+    "wanted account",
+  );
+  assertThrows(
+    () => {
+      verifyChain(u, a, [a]);
+    },
+    Error,
+    "wanted operator",
+  );
+});
+
+Deno.test("chain - validates dates", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  const u = await encodeUser("U", createUser(), akp, {}, {
+    exp: Math.floor(Date.now() / 1000) - 1,
+  });
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    Error,
+    "claim is expired",
+  );
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o], {});
+    },
+    Error,
+    "claim is expired",
+  );
+  verifyChain(u, a, [o], { now: () => Date.now() - 60_000 });
+
+  const nbf = await encodeUser("U", createUser(), akp, {}, {
+    nbf: Math.floor(Date.now() / 1000) + 60,
+  });
+  assertThrows(
+    () => {
+      verifyChain(nbf, a, [o]);
+    },
+    Error,
+    "claim is not yet valid",
+  );
+});
+
+Deno.test("chain - rejects revoked users", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const ukp = createUser();
+  const o = await encodeOperator("O", okp);
+  const u = await encodeUser("U", ukp, akp);
+  const uc = decode<User>(u);
+  let a = await encodeAccount("A", akp, {
+    revocations: { [ukp.getPublicKey()]: uc.iat },
+  }, { signer: okp });
+  assertThrows(
+    () => {
+      verifyChain(u, a, [o]);
+    },
+    JwtError,
+    "was revoked",
+  );
+
+  a = await encodeAccount("A", akp, {
+    revocations: { "*": uc.iat - 1 },
+  }, { signer: okp });
+  assertEquals(verifyChain(u, a, [o]).user.sub, ukp.getPublicKey());
+});
@@ -0,0 +1,123 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertArrayIncludes, assertEquals } from "@std/assert";
+import type { Account } from "../src/mod.ts";
+import {
+  createAccount,
+  createOperator,
+  createUser,
+  diff,
+  encodeAccount,
+  encodeActivation,
+  encodeUser,
+} from "../src/mod.ts";
+
+Deno.test("diff - equivalent", async () => {
+  const akp = createAccount();
+  const a = await encodeAccount("A", akp, { limits: { conn: 1 } });
+  const b = await encodeAccount("A", akp, { limits: { conn: 1 } });
+  assertEquals(diff(a, b), []);
+});
+
+Deno.test("diff - changed values", async () => {
+  const akp = createAccount();
+  const okp = createOperator();
+  const a = await encodeAccount("A", akp, { limits: { conn: 1 } }, {
+    signer: okp,
+  });
+  const b = await encodeAccount("B", akp, {
+    limits: { conn: 2, leaf: 1 },
+    description: "hello",
+  }, { signer: okp });
+  const changes = diff(a, b);
+  assertEquals(changes.length, 4);
+  assertArrayIncludes(changes, [
+    { kind: "changed", path: "name", old: "A", new: "B" },
+    { kind: "changed", path: "nats.limits.conn", old: 1, new: 2 },
+    { kind: "added", path: "nats.limits.leaf", new: 1 },
+    { kind: "added", path: "nats.description", new: "hello" },
+  ]);
+  assertEquals(diff(b, a).filter((c) => c.kind === "removed").length, 2);
+});
+
+Deno.test("diff - arrays", async () => {
+  const akp = createAccount();
+  const other = createAccount().getPublicKey();
+  const sk1 = createAccount().getPublicKey();
+  const sk2 = createAccount().getPublicKey();
+  const a: Partial<Account> = {
+    exports: [
+      { name: "q", subject: "q.>", type: "service" },
+      { name: "s", subject: "s.>", type: "stream" },
+    ],
+    imports: [{ name: "x", subject: "x", type: "stream", account: other }],
+    signing_keys: [sk1],
+  };
+  const b: Partial<Account> = {
+    exports: [
+      { name: "s", subject: "s.>", type: "stream" },
+      { name: "q", subject: "q.>", type: "service", response_type: "Stream" },
+    ],
+    imports: [],
+    signing_keys: [sk2],
+  };
+  const changes = diff(
+    await encodeAccount("A", akp, a),
+    await encodeAccount("A", akp, b),
+  );
+  assertEquals(changes.length, 4);
+  assertArrayIncludes(changes, [
+    {
+      kind: "added",
+      path: "nats.exports[service q.>].response_type",
+      new: "Stream",
+    },
+    { kind: "removed", path: "nats.imports", old: a.imports![0] },
+    { kind: "removed", path: "nats.signing_keys", old: sk1 },
+    { kind: "added", path: "nats.signing_keys", new: sk2 },
+  ]);
+});
+
+Deno.test("diff - permissions", async () => {
+  const akp = createAccount();
+  const ukp = createUser();
+  const a = await encodeUser("U", ukp, akp, { pub: { allow: ["a", "b"] } });
+  const b = await encodeUser("U", ukp, akp, { pub: { allow: ["b", "c"] } });
+  assertEquals(diff(a, b), [
+    { kind: "removed", path: "nats.pub.allow", old: "a" },
+    { kind: "added", path: "nats.pub.allow", new: "c" },
+  ]);
+});
+
+Deno.test("diff - activation tokens", async () => {
+  const akp = createAccount();
+  const exporter = createAccount();
+  const activation = () =>
+    encodeActivation("x", akp, exporter, "stream", { subject: "x" });
+  const account = async (token: string) =>
+    await encodeAccount("A", akp, {
+      imports: [{
+        name: "x",
+        subject: "x",
+        type: "stream",
+        account: exporter.getPublicKey(),
+        token,
+      }],
+    });
+  // the tokens differ, but have the same contents
+  assertEquals(
+    diff(await account(await activation()), await account(await activation())),
+    [],
+  );
+});
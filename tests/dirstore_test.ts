@@ -0,0 +1,142 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import type { FileSystem } from "../src/mod.ts";
+import {
+  createAccount,
+  createOperator,
+  encodeAccount,
+  encodeOperator,
+  JwtError,
+  JwtErrorCode,
+  newDirStore,
+  newMemoryFileSystem,
+  newNodeFileSystem,
+} from "../src/mod.ts";
+
+async function storeBasics(fs: FileSystem, dir: string) {
+  const okp = createOperator();
+  const akp = createAccount();
+  const operator = await encodeOperator("O", okp);
+  const store = newDirStore(fs, dir, { operators: [operator] });
+  assertEquals(await store.list(), []);
+  assertEquals(await store.load(akp.getPublicKey()), undefined);
+
+  // encoded first, so its iat is not newer than a's
+  const older = await encodeAccount("B", akp, {}, { signer: okp });
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  assertEquals(await store.save(a), true);
+  assertEquals(await store.list(), [akp.getPublicKey()]);
+  assertEquals(await store.load(akp.getPublicKey()), a);
+  const ac = await store.get(akp.getPublicKey());
+  assertExists(ac);
+  assertEquals(ac.name, "A");
+
+  assertEquals(await store.save(older), false);
+  assertEquals(await store.load(akp.getPublicKey()), a);
+
+  await store.remove(akp.getPublicKey());
+  assertEquals(await store.list(), []);
+}
+
+Deno.test("dirstore - memory", async () => {
+  await storeBasics(newMemoryFileSystem(), "jwts");
+});
+
+Deno.test("dirstore - node fs", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await storeBasics(newNodeFileSystem(), `${dir}/jwts`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("dirstore - saves newer", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const store = newDirStore(newMemoryFileSystem(), "jwts");
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  await new Promise((r) => setTimeout(r, 1100));
+  const b = await encodeAccount("B", akp, {}, { signer: okp });
+  assertEquals(await store.save(b), true);
+  assertEquals(await store.save(a), false);
+  assertEquals((await store.get(akp.getPublicKey()))?.name, "B");
+});
+
+Deno.test("dirstore - rejects untrusted", async () => {
+  const operator = await encodeOperator("O", createOperator());
+  const store = newDirStore(newMemoryFileSystem(), "jwts", {
+    operators: [operator],
+  });
+  const a = await encodeAccount("A", createAccount(), {}, {
+    signer: createOperator(),
+  });
+  const err = await assertRejects(() => store.save(a), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.UntrustedIssuer);
+  assertEquals(await store.list(), []);
+});
+
+Deno.test("dirstore - check", async () => {
+  const fs = newMemoryFileSystem();
+  const okp = createOperator();
+  const store = newDirStore(fs, "jwts", {
+    operators: [await encodeOperator("O", okp)],
+    maxAge: 60,
+    now: () => Date.now() + 120_000,
+  });
+  const expired = createAccount();
+  await store.save(
+    await encodeAccount("E", expired, {}, {
+      signer: okp,
+      exp: Math.floor(Date.now() / 1000) + 30,
+    }),
+  );
+  const stale = createAccount();
+  await store.save(await encodeAccount("S", stale, {}, { signer: okp }));
+
+  // an account stored under the wrong id
+  const wrong = createAccount().getPublicKey();
+  await fs.writeFile(
+    `jwts/${wrong}.jwt`,
+    await fs.readFile(`jwts/${stale.getPublicKey()}.jwt`),
+  );
+  const issues = await store.check();
+  assertEquals(issues.length, 3);
+  const kind = (id: string) => issues.find((i) => i.id === id)?.kind;
+  assertEquals(kind(expired.getPublicKey()), "expired");
+  assertEquals(kind(stale.getPublicKey()), "stale");
+  assertEquals(kind(wrong), "invalid");
+
+  await assertRejects(
+    () => store.get(expired.getPublicKey(), { now: () => Date.now() + 60_000 }),
+    JwtError,
+    "expired",
+  );
+});
+
+Deno.test("dirstore - rejects ids that are not account keys", async () => {
+  const fs = newMemoryFileSystem();
+  await fs.mkdir("secret");
+  await fs.writeFile("secret/private.jwt", new TextEncoder().encode("x"));
+  const store = newDirStore(fs, "jwts");
+  for (const id of ["../secret/private", createOperator().getPublicKey()]) {
+    await assertRejects(() => store.load(id), JwtError);
+    await assertRejects(() => store.get(id), JwtError);
+    await assertRejects(() => store.remove(id), JwtError);
+  }
+  const seed = new TextDecoder().decode(createAccount().getSeed());
+  await assertRejects(() => store.load(seed), JwtError, "not an account");
+  assertEquals(await fs.exists("secret/private.jwt"), true);
+});
@@ -17,6 +17,7 @@ import {
   assertEquals,
   assertExists,
   assertRejects,
+  assertThrows,
 } from "@std/assert";
 import { nsc, parseTable } from "./nsc.ts";
 import type {
@@ -36,6 +37,10 @@ import {
   createServer,
   createUser,
   decode,
+  decodeAccount,
+  decodeActivation,
+  decodeOperator,
+  decodeUser,
   defaultUserLimits,
   defaultUserPermissionsLimits,
   encodeAccount,
@@ -45,12 +50,20 @@ import {
   encodeOperator,
   encodeUser,
   equivalent,
+  fmtAccountCreds,
+  fmtCreds,
+  fmtOperatorCreds,
   isAccount,
   isActivation,
   isGeneric,
   isUser,
+  JwtError,
+  JwtErrorCode,
   newScopedSigner,
+  parseCreds,
+  parseDecoratedCreds,
   Types,
+  validateDates,
   version,
 } from "../src/mod.ts";
 
@@ -788,3 +801,264 @@ Deno.test("jwt - authorization response", async () => {
   assertEquals(ar.nats.issuer_account, account.getPublicKey());
   assertEquals(ar.nats.jwt, "hello");
 });
+
+Deno.test("jwt - decode validates dates", async () => {
+  const akp = createAccount();
+  const now = Date.now();
+  const nowSecs = Math.floor(now / 1000);
+
+  const expired = await encodeAccount("A", akp, {}, { exp: nowSecs - 10 });
+  // no options no validation
+  decode<Account>(expired);
+  assertThrows(
+    () => {
+      decode<Account>(expired, { now: () => now });
+    },
+    Error,
+    "claim is expired",
+  );
+  decode<Account>(expired, { now: () => now, skew: 30 });
+
+  const future = await encodeAccount("A", akp, {}, { nbf: nowSecs + 60 });
+  assertThrows(
+    () => {
+      decode<Account>(future, { now: () => now });
+    },
+    Error,
+    "claim is not yet valid",
+  );
+  decode<Account>(future, { now: () => now + 120 * 1000 });
+});
+
+Deno.test("jwt - validate dates", async () => {
+  const akp = createAccount();
+  const ac = decode<Account>(await encodeAccount("A", akp));
+  assertEquals(validateDates(ac), []);
+
+  // iat in the future is only a warning
+  const issues = validateDates(ac, { now: () => (ac.iat - 60) * 1000 });
+  assertEquals(issues.length, 1);
+  assertEquals(issues[0].severity, "warning");
+  assertEquals(
+    validateDates(ac, { now: () => (ac.iat - 60) * 1000, skew: 60 }),
+    [],
+  );
+
+  ac.exp = ac.iat + 10;
+  ac.nbf = ac.iat + 5;
+  const r = validateDates(ac, { now: () => (ac.iat + 20) * 1000 });
+  assertEquals(r.length, 1);
+  assertEquals(r[0].severity, "error");
+  assertEquals(r[0].description, `claim is expired - exp ${ac.exp}`);
+  const n = validateDates(ac, { now: () => ac.iat * 1000 });
+  assertEquals(n.length, 1);
+  assertEquals(n[0].description, `claim is not yet valid - nbf ${ac.nbf}`);
+});
+
+Deno.test("jwt - error codes", async () => {
+  const akp = createAccount();
+  const token = await encodeAccount("A", akp, {}, {
+    exp: Math.floor(Date.now() / 1000) - 10,
+  });
+  const chunks = token.split(".");
+
+  type test = [() => unknown, JwtErrorCode];
+  const tests: test[] = [
+    [() => decode("a.b"), JwtErrorCode.InvalidFormat],
+    [() => decode(`${chunks[0]}.!!.${chunks[2]}`), JwtErrorCode.InvalidFormat],
+    [
+      () =>
+        decode(
+          [
+            Base64UrlCodec.encode(JSON.stringify({ typ: "JWT", alg: "HS256" })),
+            chunks[1],
+            chunks[2],
+          ].join("."),
+        ),
+      JwtErrorCode.InvalidAlgorithm,
+    ],
+    [
+      () => decode([chunks[0], chunks[1], chunks[2].slice(2)].join(".")),
+      JwtErrorCode.InvalidSignature,
+    ],
+    [() => decode(token, {}), JwtErrorCode.Expired],
+  ];
+  tests.forEach(([fn, code]) => {
+    const err = assertThrows(fn, JwtError);
+    assertEquals((err as JwtError).code, code);
+  });
+
+  let err = await assertRejects(
+    () => encodeAccount("A", createUser()),
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.UnexpectedKeyType);
+
+  err = await assertRejects(
+    () => encodeAccount("A", akp.getPublicKey()),
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.MissingSeed);
+
+  err = await assertRejects(() => encodeAccount("A", "AXXX"), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidKey);
+
+  err = await assertRejects(
+    () => parseCreds(new TextEncoder().encode("hello")),
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidCredentials);
+});
+
+Deno.test("jwt - typed decoders", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  const u = await encodeUser("U", createUser(), akp);
+  const t = await encodeActivation("T", createAccount(), akp, "service", {
+    subject: "a",
+  });
+
+  assertEquals(decodeOperator(o).nats.type, Types.Operator);
+  assertEquals(decodeAccount(a).nats.type, Types.Account);
+  assertEquals(decodeUser(u).nats.type, Types.User);
+  assertEquals(decodeActivation(t).nats.kind, "service");
+
+  type test = [() => unknown, string];
+  const tests: test[] = [
+    [
+      () => decodeOperator(a),
+      "unexpected claim type account - wanted operator",
+    ],
+    [() => decodeAccount(u), "unexpected claim type user - wanted account"],
+    [() => decodeUser(a), "unexpected claim type account - wanted user"],
+    [
+      () => decodeActivation(u),
+      "unexpected claim type user - wanted activation",
+    ],
+  ];
+  tests.forEach(([fn, msg]) => {
+    const err = assertThrows(fn, JwtError, msg);
+    assertEquals((err as JwtError).code, JwtErrorCode.UnexpectedClaimType);
+  });
+
+  // account claim issued by a user
+  const bad = await encodeGeneric("A", createUser(), Types.Account);
+  const err = assertThrows(
+    () => decodeAccount(bad),
+    JwtError,
+    "unexpected type",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.UnexpectedKeyType);
+});
+
+Deno.test("jwt - typed decoders normalize v1", async () => {
+  const akp = createAccount();
+  const ac = decodeAccount(
+    await encodeAccount("A", akp, {}, { algorithm: Algorithms.v1 }),
+  );
+  assertEquals(ac.type, Types.Account);
+  assertEquals(ac.nats.type, Types.Account);
+  assertEquals(version(ac), 1);
+  assertEquals(isAccount(ac), true);
+
+  const tc = decodeActivation(
+    await encodeActivation("T", createAccount(), akp, "stream", {
+      subject: "a",
+    }, { algorithm: Algorithms.v1 }),
+  );
+  assertEquals(tc.nats.type, Types.Activation);
+  assertEquals(tc.nats.kind, "stream");
+  assertEquals(isActivation(tc), true);
+});
+
+Deno.test("jwt - creds", async () => {
+  const akp = createAccount();
+  const ukp = createUser();
+  const token = await encodeUser("U", ukp, akp);
+  const creds = fmtCreds(token, ukp);
+  const pc = await parseCreds(creds);
+  assertEquals(pc.jwt, token);
+  assertEquals(pc.key, new TextDecoder().decode(ukp.getSeed()));
+  assertEquals(pc.aid, akp.getPublicKey());
+
+  const { jwt, claim, kp } = await parseDecoratedCreds<User>(creds);
+  assertEquals(jwt, token);
+  assertEquals(claim.sub, ukp.getPublicKey());
+  assertEquals(kp.getPublicKey(), ukp.getPublicKey());
+  assertEquals(kp.getSeed(), ukp.getSeed());
+});
+
+Deno.test("jwt - operator and account creds", async () => {
+  const okp = createOperator();
+  const akp = createAccount();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+
+  const oc = fmtOperatorCreds(o, okp);
+  assert(
+    new TextDecoder().decode(oc).includes("-----BEGIN NATS OPERATOR JWT-----"),
+  );
+  let pc = await parseDecoratedCreds<Operator>(oc);
+  assertEquals(pc.claim.sub, okp.getPublicKey());
+  assertEquals(pc.kp.getPublicKey(), okp.getPublicKey());
+
+  const ac = fmtAccountCreds(a, akp);
+  assert(
+    new TextDecoder().decode(ac).includes("-----BEGIN ACCOUNT NKEY SEED-----"),
+  );
+  pc = await parseDecoratedCreds<Account>(ac);
+  assertEquals(pc.claim.sub, akp.getPublicKey());
+  assertEquals(pc.kp.getPublicKey(), akp.getPublicKey());
+});
+
+Deno.test("jwt - creds tolerate line endings and whitespace", async () => {
+  const akp = createAccount();
+  const ukp = createUser();
+  const token = await encodeUser("U", ukp, akp);
+  const seed = new TextDecoder().decode(ukp.getSeed());
+  const creds = [
+    "",
+    "  -----BEGIN NATS USER JWT-----  ",
+    `  ${token}  `,
+    "------END NATS USER JWT------",
+    "",
+    "",
+    "-----BEGIN USER NKEY SEED-----",
+    `\t${seed}`,
+    "------END USER NKEY SEED------",
+    "",
+  ].join("\r\n");
+  const { jwt, kp } = await parseDecoratedCreds(creds);
+  assertEquals(jwt, token);
+  assertEquals(kp.getPublicKey(), ukp.getPublicKey());
+
+  const pc = await parseCreds(new TextEncoder().encode(creds));
+  assertEquals(pc.jwt, token);
+  assertEquals(pc.key, seed);
+});
+
+Deno.test("jwt - creds seed must match subject", async () => {
+  const akp = createAccount();
+  const token = await encodeUser("U", createUser(), akp);
+  let err = await assertRejects(
+    () => parseDecoratedCreds(fmtCreds(token, createUser())),
+    JwtError,
+    "does not match jwt subject",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidCredentials);
+
+  err = await assertRejects(
+    () => parseDecoratedCreds(fmtCreds(token, akp)),
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidCredentials);
+
+  err = await assertRejects(
+    () => parseDecoratedCreds(token),
+    JwtError,
+    "bad credentials",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidCredentials);
+});
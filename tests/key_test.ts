@@ -13,7 +13,12 @@
  * limitations under the License.
  */
 
-import { createCurve } from "../src/mod.ts";
+import {
+  createAccount,
+  createCurve,
+  createOperator,
+  isPublicKey,
+} from "../src/mod.ts";
 
 import { assert, assertEquals, assertExists } from "@std/assert";
 import { fromSeed } from "@nats-io/nkeys";
@@ -32,3 +37,16 @@ Deno.test("curve parses", () => {
   assertExists(d);
   assertEquals(new TextDecoder().decode(d), "hello");
 });
+
+Deno.test("is public key", () => {
+  const akp = createAccount();
+  const pk = akp.getPublicKey();
+  assert(isPublicKey(pk));
+  assert(isPublicKey(pk, "A"));
+  assert(isPublicKey(pk, ["O", "A"]));
+  assert(!isPublicKey(pk, "O"));
+  assert(!isPublicKey(createOperator().getPublicKey(), "A"));
+  assert(!isPublicKey(new TextDecoder().decode(akp.getSeed()), "A"));
+  assert(!isPublicKey("../secret", "A"));
+  assert(!isPublicKey("", "A"));
+});
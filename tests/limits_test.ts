@@ -0,0 +1,271 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { User } from "../src/mod.ts";
+import {
+  connectionType,
+  createAccount,
+  createUser,
+  decode,
+  encodeUser,
+  isConnectionTypeAllowed,
+  isSourceAllowed,
+  isValidCIDR,
+  isWithinAllowedTimes,
+  JwtError,
+  JwtErrorCode,
+  newScopedSigner,
+  normalizeConnectionTypes,
+  validateUserLimits,
+} from "../src/mod.ts";
+
+Deno.test("limits - validate times", () => {
+  assertEquals(
+    validateUserLimits({ times: [{ start: "9:00:00", end: "17:30:00" }] }),
+    [],
+  );
+  const issues = validateUserLimits({
+    times: [{ start: "24:00:00", end: "9:00" }],
+  });
+  assertEquals(issues.length, 2);
+  assertEquals(issues[0].description.includes("24:00:00"), true);
+  assertEquals(issues[1].description.includes("9:00"), true);
+});
+
+Deno.test("limits - validate locale", () => {
+  assertEquals(validateUserLimits({ locale: "America/New_York" }), []);
+  const issues = validateUserLimits({ locale: "Mars/Olympus_Mons" });
+  assertEquals(issues.length, 1);
+  assertEquals(issues[0].severity, "error");
+});
+
+Deno.test("limits - no times allows all", () => {
+  assertEquals(isWithinAllowedTimes({}), true);
+  assertEquals(isWithinAllowedTimes({ times: [] }), true);
+});
+
+Deno.test("limits - within times", () => {
+  const limits = {
+    times: [{ start: "09:00:00", end: "17:00:00" }],
+    locale: "UTC",
+  };
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T09:00:00Z")),
+    true,
+  );
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T16:59:59Z")),
+    true,
+  );
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T17:00:00Z")),
+    false,
+  );
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T08:00:00Z")),
+    false,
+  );
+});
+
+Deno.test("limits - times crossing midnight", () => {
+  const limits = {
+    times: [{ start: "22:00:00", end: "02:00:00" }],
+    locale: "UTC",
+  };
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T23:00:00Z")),
+    true,
+  );
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T01:00:00Z")),
+    true,
+  );
+  assertEquals(
+    isWithinAllowedTimes(limits, new Date("2026-01-01T12:00:00Z")),
+    false,
+  );
+});
+
+Deno.test("limits - times in locale", () => {
+  const times = [{ start: "09:00:00", end: "17:00:00" }];
+  // 14:00 UTC is 09:00 in New York during the winter
+  const d = new Date("2026-01-15T14:00:00Z");
+  assertEquals(isWithinAllowedTimes({ times, locale: "UTC" }, d), true);
+  assertEquals(
+    isWithinAllowedTimes({ times, locale: "America/New_York" }, d),
+    true,
+  );
+  const early = new Date("2026-01-15T13:00:00Z");
+  assertEquals(isWithinAllowedTimes({ times, locale: "UTC" }, early), true);
+  assertEquals(
+    isWithinAllowedTimes({ times, locale: "America/New_York" }, early),
+    false,
+  );
+});
+
+Deno.test("limits - user claim", async () => {
+  const token = await encodeUser("U", createUser(), createAccount(), {
+    times: [{ start: "09:00:00", end: "17:00:00" }],
+    locale: "UTC",
+  });
+  const uc = decode<User>(token);
+  assertEquals(
+    isWithinAllowedTimes(uc, new Date("2026-01-01T10:00:00Z")),
+    true,
+  );
+  assertEquals(
+    isWithinAllowedTimes(uc, new Date("2026-01-01T18:00:00Z")),
+    false,
+  );
+});
+
+Deno.test("limits - encode rejects bad limits", async () => {
+  const err = await assertRejects(
+    () =>
+      encodeUser("U", createUser(), createAccount(), {
+        times: [{ start: "9am", end: "17:00:00" }],
+      }),
+    JwtError,
+    "invalid user",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidClaim);
+
+  await assertRejects(
+    () => encodeUser("U", createUser(), createAccount(), { locale: "Nowhere" }),
+    JwtError,
+    "is not a valid time zone",
+  );
+
+  assertThrows(
+    () => newScopedSigner(createAccount(), "r", { locale: "Nowhere" }),
+    JwtError,
+    "invalid scoped signer",
+  );
+});
+
+Deno.test("limits - valid cidr", () => {
+  assertEquals(isValidCIDR("192.168.1.0/24"), true);
+  assertEquals(isValidCIDR("0.0.0.0/0"), true);
+  assertEquals(isValidCIDR("2001:db8::/32"), true);
+  assertEquals(isValidCIDR("::1/128"), true);
+  assertEquals(isValidCIDR("::ffff:10.0.0.0/104"), true);
+  assertEquals(isValidCIDR("192.168.1.1"), false);
+  assertEquals(isValidCIDR("192.168.1.0/33"), false);
+  assertEquals(isValidCIDR("256.1.1.1/8"), false);
+  assertEquals(isValidCIDR("2001:db8::1::/64"), false);
+  assertEquals(isValidCIDR("2001:db8::/129"), false);
+  assertEquals(isValidCIDR("bad/8"), false);
+
+  const issues = validateUserLimits({ src: ["10.0.0.0/8", "10.0.0.1"] });
+  assertEquals(issues.length, 1);
+  assertEquals(issues[0].description.includes("10.0.0.1"), true);
+});
+
+Deno.test("limits - source allowed", () => {
+  assertEquals(isSourceAllowed({}, "10.1.2.3"), true);
+  const limits = { src: ["10.0.0.0/8", "192.168.1.128/25", "2001:db8::/32"] };
+  assertEquals(isSourceAllowed(limits, "10.1.2.3"), true);
+  assertEquals(isSourceAllowed(limits, "11.1.2.3"), false);
+  assertEquals(isSourceAllowed(limits, "192.168.1.200"), true);
+  assertEquals(isSourceAllowed(limits, "192.168.1.100"), false);
+  assertEquals(isSourceAllowed(limits, "2001:db8:1::5"), true);
+  assertEquals(isSourceAllowed(limits, "[2001:db8::5%eth0]"), true);
+  assertEquals(isSourceAllowed(limits, "2001:db9::5"), false);
+  assertEquals(isSourceAllowed(limits, "::ffff:10.0.0.1"), true);
+  assertEquals(isSourceAllowed(limits, "not an ip"), false);
+});
+
+Deno.test("limits - encode rejects bad source networks", async () => {
+  await assertRejects(
+    () => encodeUser("U", createUser(), createAccount(), { src: ["10.0.0.1"] }),
+    JwtError,
+    "is not a valid CIDR",
+  );
+  const uc = decode<User>(
+    await encodeUser("U", createUser(), createAccount(), {
+      src: ["127.0.0.0/8"],
+    }),
+  );
+  assertEquals(isSourceAllowed(uc, "127.0.0.1"), true);
+  assertEquals(isSourceAllowed(uc, "10.0.0.1"), false);
+});
+
+Deno.test("limits - connection types", () => {
+  assertEquals(
+    normalizeConnectionTypes(["websocket", " STANDARD", "WEBSOCKET"]),
+    ["WEBSOCKET", "STANDARD"],
+  );
+  assertEquals(
+    validateUserLimits({ allowed_connection_types: ["STANDARD", "MQTT"] }),
+    [],
+  );
+  const issues = validateUserLimits({
+    // @ts-ignore: testing bad values
+    allowed_connection_types: ["standard", "CARRIER_PIGEON"],
+  });
+  assertEquals(issues.length, 2);
+  assertEquals(issues[0].severity, "error");
+  assertEquals(issues[0].description.includes("CARRIER_PIGEON"), true);
+  assertEquals(issues[1].severity, "warning");
+});
+
+Deno.test("limits - connection type from client info", () => {
+  assertEquals(connectionType({ kind: "Client", type: "nats" }), "STANDARD");
+  assertEquals(connectionType({ kind: "Client" }), "STANDARD");
+  assertEquals(
+    connectionType({ kind: "Client", type: "websocket" }),
+    "WEBSOCKET",
+  );
+  assertEquals(connectionType({ kind: "Client", type: "mqtt" }), "MQTT");
+  assertEquals(connectionType({ kind: "Leafnode" }), "LEAFNODE");
+  assertEquals(connectionType({ kind: "Router" }), undefined);
+});
+
+Deno.test("limits - connection type allowed", () => {
+  assertEquals(isConnectionTypeAllowed({}, "MQTT"), true);
+  const limits = {
+    allowed_connection_types: ["STANDARD", "WEBSOCKET"],
+  } as Partial<User>;
+  assertEquals(isConnectionTypeAllowed(limits, "STANDARD"), true);
+  assertEquals(isConnectionTypeAllowed(limits, "MQTT"), false);
+  assertEquals(
+    isConnectionTypeAllowed(limits, { kind: "Client", type: "websocket" }),
+    true,
+  );
+  assertEquals(isConnectionTypeAllowed(limits, { kind: "Leafnode" }), false);
+  assertEquals(isConnectionTypeAllowed(limits, { kind: "Router" }), false);
+});
+
+Deno.test("limits - encode normalizes connection types", async () => {
+  const user = {
+    // @ts-ignore: testing lower-case values
+    allowed_connection_types: ["websocket", "WEBSOCKET", "leafnode"],
+  } as Partial<User>;
+  const uc = decode<User>(
+    await encodeUser("U", createUser(), createAccount(), user),
+  );
+  assertEquals(uc.nats.allowed_connection_types, ["WEBSOCKET", "LEAFNODE"]);
+  // the input is not modified
+  assertEquals(user.allowed_connection_types?.length, 3);
+
+  await assertRejects(
+    () =>
+      encodeUser("U", createUser(), createAccount(), {
+        // @ts-ignore: testing bad values
+        allowed_connection_types: ["CARRIER_PIGEON"],
+      }),
+    JwtError,
+    "is not supported",
+  );
+});
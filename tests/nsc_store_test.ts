@@ -0,0 +1,135 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
+import type { FileSystem, NscOperator } from "../src/mod.ts";
+import {
+  createAccount,
+  createOperator,
+  createUser,
+  decodeAccount,
+  decodeOperator,
+  decodeUser,
+  encodeAccount,
+  encodeOperator,
+  encodeUser,
+  JwtError,
+  newMemoryFileSystem,
+  newNodeFileSystem,
+  newNscStore,
+  parseDecoratedCreds,
+} from "../src/mod.ts";
+
+async function operator(): Promise<NscOperator> {
+  const okp = createOperator();
+  const akp = createAccount();
+  const ukp = createUser();
+  const o = await encodeOperator("O", okp);
+  const a = await encodeAccount("A", akp, {}, { signer: okp });
+  const u = await encodeUser("U", ukp, akp);
+  return {
+    name: "O",
+    jwt: o,
+    claim: decodeOperator(o),
+    kp: okp,
+    accounts: [{
+      name: "A",
+      jwt: a,
+      claim: decodeAccount(a),
+      kp: akp,
+      users: [{ name: "U", jwt: u, claim: decodeUser(u), kp: ukp }],
+    }],
+  };
+}
+
+async function roundTrip(fs: FileSystem, root: string) {
+  const store = newNscStore(fs, `${root}/stores`, `${root}/keys`);
+  assertEquals(await store.operators(), []);
+  assertEquals(await store.load("O"), undefined);
+
+  const op = await operator();
+  await store.save(op);
+  assertEquals(await store.operators(), ["O"]);
+
+  const okp = op.kp!;
+  const akp = op.accounts[0].kp!;
+  const ukp = op.accounts[0].users[0].kp!;
+  // the nsc layout
+  assertEquals(await fs.exists(`${root}/stores/O/O.jwt`), true);
+  assertEquals(await fs.exists(`${root}/stores/O/accounts/A/A.jwt`), true);
+  assertEquals(
+    await fs.exists(`${root}/stores/O/accounts/A/users/U.jwt`),
+    true,
+  );
+  const pk = akp.getPublicKey();
+  assertEquals(
+    await fs.exists(`${root}/keys/keys/A/${pk.substring(1, 3)}/${pk}.nk`),
+    true,
+  );
+  const creds = await fs.readFile(`${root}/keys/creds/O/A/U.creds`);
+  assertEquals(
+    (await parseDecoratedCreds(creds)).kp.getPublicKey(),
+    ukp.getPublicKey(),
+  );
+
+  const loaded = await store.load("O");
+  assertExists(loaded);
+  assertEquals(loaded.jwt, op.jwt);
+  assertEquals(loaded.kp?.getPublicKey(), okp.getPublicKey());
+  assertEquals(loaded.accounts.length, 1);
+  const account = loaded.accounts[0];
+  assertEquals(account.name, "A");
+  assertEquals(account.claim.sub, akp.getPublicKey());
+  assertEquals(account.kp?.getSeed(), akp.getSeed());
+  assertEquals(account.users.length, 1);
+  assertEquals(account.users[0].name, "U");
+  assertEquals(account.users[0].kp?.getPublicKey(), ukp.getPublicKey());
+
+  // updates are written back
+  const u2 = createUser();
+  const jwt = await encodeUser("U2", u2, akp);
+  account.users.push({ name: "U2", jwt, claim: decodeUser(jwt) });
+  await store.save(loaded);
+  const reloaded = await store.load("O");
+  assertEquals(reloaded?.accounts[0].users.map((u) => u.name), ["U", "U2"]);
+  assertEquals(reloaded?.accounts[0].users[1].kp, undefined);
+}
+
+Deno.test("nsc store - memory", async () => {
+  await roundTrip(newMemoryFileSystem(), "nsc");
+});
+
+Deno.test("nsc store - node fs", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await roundTrip(newNodeFileSystem(), dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("nsc store - keys", async () => {
+  const store = newNscStore(newMemoryFileSystem(), "stores", "keys");
+  const kp = createAccount();
+  assertEquals(await store.findKey(kp.getPublicKey()), undefined);
+  await store.saveKey(kp);
+  const found = await store.findKey(kp.getPublicKey());
+  assertEquals(found?.getSeed(), kp.getSeed());
+});
+
+Deno.test("nsc store - key must match subject", async () => {
+  const store = newNscStore(newMemoryFileSystem(), "stores", "keys");
+  const op = await operator();
+  op.accounts[0].kp = createAccount();
+  await assertRejects(() => store.save(op), JwtError, "doesn't match");
+});
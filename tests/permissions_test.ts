@@ -0,0 +1,247 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import type { Account, User } from "../src/mod.ts";
+import {
+  canPublish,
+  canSubscribe,
+  createAccount,
+  createUser,
+  decode,
+  encodeAccount,
+  encodeUser,
+  JwtError,
+  newScopedSigner,
+  resolvePermissions,
+} from "../src/mod.ts";
+
+async function user(u: Partial<User>) {
+  return decode<User>(await encodeUser("U", createUser(), createAccount(), u));
+}
+
+Deno.test("permissions - empty allows all", async () => {
+  const uc = await user({});
+  assertEquals(canPublish(uc, "a.b"), true);
+  assertEquals(canSubscribe(uc, "a.>"), true);
+  assertEquals(canSubscribe(uc, "a.b", "q"), true);
+});
+
+Deno.test("permissions - publish", async () => {
+  const uc = await user({
+    pub: { allow: ["a.>", "b.*"], deny: ["a.secret.>"] },
+  });
+  assertEquals(canPublish(uc, "a.b"), true);
+  assertEquals(canPublish(uc, "a.b.c"), true);
+  assertEquals(canPublish(uc, "b.c"), true);
+  assertEquals(canPublish(uc, "b.c.d"), false);
+  assertEquals(canPublish(uc, "c"), false);
+  assertEquals(canPublish(uc, "a.secret.x"), false);
+  // publish subjects must be literal
+  assertEquals(canPublish(uc, "a.*"), false);
+  assertEquals(canPublish(uc, "a..b"), false);
+});
+
+Deno.test("permissions - deny wins", async () => {
+  const uc = await user({
+    pub: { allow: ["a.b"], deny: ["a.*"] },
+    sub: { deny: [">"] },
+  });
+  assertEquals(canPublish(uc, "a.b"), false);
+  assertEquals(canSubscribe(uc, "a.b"), false);
+});
+
+Deno.test("permissions - subscribe", async () => {
+  const uc = await user({
+    sub: { allow: ["a.>"], deny: ["a.secret"] },
+  });
+  assertEquals(canSubscribe(uc, "a.b"), true);
+  assertEquals(canSubscribe(uc, "a.*"), true);
+  assertEquals(canSubscribe(uc, "a.>"), true);
+  assertEquals(canSubscribe(uc, ">"), false);
+  assertEquals(canSubscribe(uc, "b"), false);
+  assertEquals(canSubscribe(uc, "a.secret"), false);
+  // the server filters denied messages from wildcard subscriptions
+  assertEquals(canSubscribe(uc, "a.*"), true);
+});
+
+Deno.test("permissions - queue subscriptions", async () => {
+  const uc = await user({
+    sub: { allow: ["a.>", "q.> workers.*"], deny: ["a.b bad"] },
+  });
+  assertEquals(canSubscribe(uc, "a.c", "any"), true);
+  assertEquals(canSubscribe(uc, "a.b"), true);
+  assertEquals(canSubscribe(uc, "a.b", "bad"), false);
+  assertEquals(canSubscribe(uc, "a.b", "good"), true);
+  assertEquals(canSubscribe(uc, "q.x", "workers.1"), true);
+  assertEquals(canSubscribe(uc, "q.x", "other"), false);
+  assertEquals(canSubscribe(uc, "q.x"), false);
+});
+
+Deno.test("permissions - permissions object", () => {
+  const perms = { pub: { allow: ["a"] }, sub: { deny: ["b"] } };
+  assertEquals(canPublish(perms, "a"), true);
+  assertEquals(canPublish(perms, "b"), false);
+  assertEquals(canSubscribe(perms, "a"), true);
+  assertEquals(canSubscribe(perms, "b"), false);
+});
+
+Deno.test("permissions - resolve unscoped user", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const ac = decode<Account>(
+    await encodeAccount("A", akp, { signing_keys: [sk.getPublicKey()] }),
+  );
+  let uc = decode<User>(
+    await encodeUser("U", createUser(), akp, {
+      pub: { allow: ["a"] },
+      subs: 10,
+    }),
+  );
+  let upl = resolvePermissions(ac, uc);
+  assertEquals(upl.pub?.allow, ["a"]);
+  assertEquals(upl.sub, { allow: [], deny: [] });
+  assertEquals(upl.subs, 10);
+  assertEquals(upl.data, -1);
+  assertEquals(upl.bearer_token, false);
+
+  uc = decode<User>(
+    await encodeUser("U", createUser(), akp, { sub: { deny: ["b"] } }, {
+      signer: sk,
+    }),
+  );
+  upl = resolvePermissions(ac, uc);
+  assertEquals(upl.sub?.deny, ["b"]);
+});
+
+Deno.test("permissions - resolve scoped user", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const scope = newScopedSigner(sk, "dev", {
+    pub: {
+      allow: [
+        "{{name()}}.>",
+        "{{account-name()}}.{{subject()}}",
+        "team.{{tag(team)}}.>",
+        "dept.{{tag(dept)}}",
+      ],
+      deny: ["{{account-subject()}}.secret"],
+    },
+    sub: { allow: ["_INBOX.{{tag(team)}}.>"] },
+    bearer_token: true,
+  });
+  const ac = decode<Account>(
+    await encodeAccount("A", akp, { signing_keys: [scope] }),
+  );
+  const uc = decode<User>(
+    await encodeUser("bob", createUser(), akp, {
+      pub: { allow: [">"] },
+      tags: ["team:red", "team:blue"],
+    }, { signer: sk, scopedUser: true }),
+  );
+  const upl = resolvePermissions(ac, uc);
+  assertEquals(upl.pub?.allow, [
+    "bob.>",
+    `A.${uc.sub}`,
+    "team.red.>",
+    "team.blue.>",
+  ]);
+  assertEquals(upl.pub?.deny, [`${akp.getPublicKey()}.secret`]);
+  assertEquals(upl.sub?.allow, ["_INBOX.red.>", "_INBOX.blue.>"]);
+  assertEquals(upl.bearer_token, true);
+  // the scope was not modified
+  assertEquals(scope.template.pub?.allow?.[0], "{{name()}}.>");
+  assertEquals(canPublish(upl, "bob.x"), true);
+  assertEquals(canPublish(upl, "alice.x"), false);
+});
+
+Deno.test("permissions - resolve scoped deny must expand", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const scope = newScopedSigner(sk, "dev", {
+    sub: { deny: ["secret.{{tag(team)}}"] },
+  });
+  const ac = decode<Account>(
+    await encodeAccount("A", akp, { signing_keys: [scope] }),
+  );
+  const uc = decode<User>(
+    await encodeUser("bob", createUser(), akp, {}, {
+      signer: sk,
+      scopedUser: true,
+    }),
+  );
+  assertThrows(
+    () => {
+      resolvePermissions(ac, uc);
+    },
+    JwtError,
+    "generated an invalid subject",
+  );
+});
+
+Deno.test("permissions - resolve scoped allow that doesn't expand", async () => {
+  const akp = createAccount();
+  const sk = createAccount();
+  const scope = newScopedSigner(sk, "dev", {
+    pub: { allow: ["svc.{{tag(team)}}.>"] },
+    sub: { allow: ["_INBOX.>"] },
+  });
+  const ac = decode<Account>(
+    await encodeAccount("A", akp, {
+      signing_keys: [scope],
+      default_permissions: { pub: { allow: [">"] } },
+    }),
+  );
+  const uc = decode<User>(
+    await encodeUser("bob", createUser(), akp, {}, {
+      signer: sk,
+      scopedUser: true,
+    }),
+  );
+  const upl = resolvePermissions(ac, uc);
+  assertEquals(upl.pub, { allow: [], deny: [">"] });
+  assertEquals(canPublish(upl, "admin.secret"), false);
+  assertEquals(canPublish(upl, "svc.red.x"), false);
+  assertEquals(canSubscribe(upl, "_INBOX.x"), true);
+});
+
+Deno.test("permissions - resolve default permissions", async () => {
+  const akp = createAccount();
+  const ac = decode<Account>(
+    await encodeAccount("A", akp, {
+      default_permissions: { pub: { deny: [">"] } },
+    }),
+  );
+  let uc = decode<User>(await encodeUser("U", createUser(), akp));
+  assertEquals(resolvePermissions(ac, uc).pub?.deny, [">"]);
+
+  uc = decode<User>(
+    await encodeUser("U", createUser(), akp, { sub: { allow: ["a"] } }),
+  );
+  assertEquals(resolvePermissions(ac, uc).pub, { allow: [], deny: [] });
+});
+
+Deno.test("permissions - resolve rejects other issuers", async () => {
+  const akp = createAccount();
+  const ac = decode<Account>(await encodeAccount("A", akp));
+  const uc = decode<User>(
+    await encodeUser("U", createUser(), akp, {}, { signer: createAccount() }),
+  );
+  assertThrows(
+    () => {
+      resolvePermissions(ac, uc);
+    },
+    JwtError,
+    "is not account",
+  );
+});
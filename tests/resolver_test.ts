@@ -0,0 +1,98 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import {
+  createAccount,
+  createOperator,
+  encodeAccount,
+  encodeOperator,
+  fmtResolverConfig,
+  JwtError,
+  JwtErrorCode,
+  memoryResolverConfig,
+} from "../src/mod.ts";
+
+async function setup() {
+  const okp = createOperator();
+  const sk = createOperator();
+  const sys = createAccount();
+  const akp = createAccount();
+  const operator = await encodeOperator("O", okp, {
+    system_account: sys.getPublicKey(),
+    signing_keys: [sk.getPublicKey()],
+  });
+  const system = await encodeAccount("SYS", sys, {}, { signer: okp });
+  const account = await encodeAccount("A", akp, {}, { signer: sk });
+  return { okp, sys, akp, operator, system, account };
+}
+
+Deno.test("resolver - memory config", async () => {
+  const { sys, akp, operator, system, account } = await setup();
+  const config = memoryResolverConfig(operator, [system, account]);
+  assertEquals(config.operator, operator);
+  assertEquals(config.system_account, sys.getPublicKey());
+  assertEquals(config.resolver, "MEMORY");
+  assertEquals(config.resolver_preload, {
+    [sys.getPublicKey()]: system,
+    [akp.getPublicKey()]: account,
+  });
+
+  assertEquals(JSON.parse(fmtResolverConfig(config, "json")), config);
+
+  const conf = fmtResolverConfig(config);
+  assert(conf.includes(`operator: "${operator}"`));
+  assert(conf.includes(`system_account: "${sys.getPublicKey()}"`));
+  assert(conf.includes("resolver: MEMORY\n"));
+  assert(conf.includes(`  ${akp.getPublicKey()}: "${account}"\n`));
+});
+
+Deno.test("resolver - newest account wins", async () => {
+  const { akp, operator, system, okp } = await setup();
+  const old = await encodeAccount("A", akp, {}, { signer: okp });
+  // iat is in seconds
+  await new Promise((r) => setTimeout(r, 1100));
+  const newer = await encodeAccount("A2", akp, {}, { signer: okp });
+  const config = memoryResolverConfig(operator, [newer, system, old]);
+  assertEquals(config.resolver_preload[akp.getPublicKey()], newer);
+});
+
+Deno.test("resolver - requires system account", async () => {
+  const { operator, account } = await setup();
+  const err = assertThrows(
+    () => memoryResolverConfig(operator, [account]),
+    JwtError,
+    "system account",
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidClaim);
+});
+
+Deno.test("resolver - accounts must be issued by the operator", async () => {
+  const { operator, system } = await setup();
+  const other = await encodeAccount("X", createAccount(), {}, {
+    signer: createOperator(),
+  });
+  const err = assertThrows(
+    () => memoryResolverConfig(operator, [system, other]),
+    JwtError,
+  );
+  assertEquals((err as JwtError).code, JwtErrorCode.UntrustedIssuer);
+
+  const self = createAccount();
+  const selfSigned = await encodeAccount("S", self);
+  assertThrows(
+    () => memoryResolverConfig(operator, [system, selfSigned]),
+    JwtError,
+    "is not operator",
+  );
+});
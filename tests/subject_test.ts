@@ -0,0 +1,116 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  checkSubject,
+  hasWildcards,
+  isLiteralSubject,
+  isSubjectSubset,
+  isValidSubject,
+  JwtError,
+  subjectMatches,
+  tokenizeSubject,
+} from "../src/mod.ts";
+
+Deno.test("subject - tokenize", () => {
+  assertEquals(tokenizeSubject("a.b.c"), ["a", "b", "c"]);
+  assertEquals(tokenizeSubject("a"), ["a"]);
+  assertEquals(checkSubject("a.*.>"), ["a", "*", ">"]);
+});
+
+Deno.test("subject - validation", () => {
+  type test = [string, boolean];
+  const tests: test[] = [
+    ["a", true],
+    ["a.b.c", true],
+    ["*", true],
+    [">", true],
+    ["a.*.c", true],
+    ["a.>", true],
+    ["a*.b>", true],
+    ["", false],
+    [".", false],
+    ["a.", false],
+    [".a", false],
+    ["a..b", false],
+    ["a.>.b", false],
+    ["> .a", false],
+    ["a b", false],
+    ["a\tb", false],
+    ["a\nb", false],
+  ];
+  tests.forEach(([s, ok]) => {
+    assertEquals(isValidSubject(s), ok, s);
+  });
+
+  assertThrows(() => checkSubject("a..b"), JwtError, "empty tokens");
+  assertThrows(() => checkSubject("a.>.b"), JwtError, "last token");
+  assertThrows(() => checkSubject("a b"), JwtError, "whitespace");
+  assertThrows(() => checkSubject("a.*", false), JwtError, "wildcards");
+});
+
+Deno.test("subject - literal and wildcards", () => {
+  assertEquals(isLiteralSubject("a.b"), true);
+  assertEquals(isLiteralSubject("a.*"), false);
+  assertEquals(isLiteralSubject("a.>"), false);
+  assertEquals(isLiteralSubject("a*"), true);
+  assertEquals(hasWildcards("a.b"), false);
+  assertEquals(hasWildcards("*.b"), true);
+  assertEquals(hasWildcards("a.>"), true);
+});
+
+Deno.test("subject - subset", () => {
+  type test = [string, string, boolean];
+  const tests: test[] = [
+    ["a.b", "a.b", true],
+    ["a.b", "a.*", true],
+    ["a.b", "a.>", true],
+    ["a.b.c", "a.>", true],
+    ["a", "a.>", false],
+    ["a.*", "a.>", true],
+    ["a.>", "a.>", true],
+    ["a.>", ">", true],
+    ["a.>", "a.*", false],
+    ["a.*", "a.b", false],
+    ["a.*.c", "a.*.*", true],
+    ["a.b", "a.b.c", false],
+    ["a.b.c", "a.b", false],
+    ["*", ">", true],
+    [">", "*", false],
+  ];
+  tests.forEach(([s, o, ok]) => {
+    assertEquals(isSubjectSubset(s, o), ok, `${s} in ${o}`);
+  });
+});
+
+Deno.test("subject - matches", () => {
+  type test = [string, string, boolean];
+  const tests: test[] = [
+    ["a.b", "a.b", true],
+    ["a.b", "a.*", true],
+    ["a.b.c", "a.>", true],
+    ["a.b.c", "a.*", false],
+    ["a", "a.>", false],
+    ["a.b", ">", true],
+    ["a.b", "*.b", true],
+    ["a.b", "b.*", false],
+    // the subject must be literal
+    ["a.*", "a.*", false],
+    // the pattern must be valid
+    ["a.b", "a..b", false],
+  ];
+  tests.forEach(([s, p, ok]) => {
+    assertEquals(subjectMatches(s, p), ok, `${s} ~ ${p}`);
+  });
+});
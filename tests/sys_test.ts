@@ -0,0 +1,182 @@
+// Copyright 2026 The NATS Authors
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+// http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  claimsDeleteRequest,
+  ClaimsDeleteSubject,
+  claimsListRequest,
+  claimsLookupRequest,
+  claimsPackRequest,
+  claimsUpdateRequest,
+  ClaimsUpdateSubject,
+  createAccount,
+  createOperator,
+  createUser,
+  decodeAccountDeletion,
+  encodeAccount,
+  encodeAccountDeletion,
+  encodeOperator,
+  encodeUser,
+  JwtError,
+  JwtErrorCode,
+  parseClaimsListResponse,
+  parseClaimsLookupResponse,
+  parseClaimsPackResponse,
+  parseClaimsUpdateResponse,
+  parseServerResponse,
+} from "../src/mod.ts";
+
+const server = {
+  name: "n1",
+  host: "0.0.0.0",
+  id: "NCXYZ",
+  ver: "2.10.0",
+  jetstream: false,
+  flags: 0,
+  seq: 1,
+  time: "2026-01-01T00:00:00Z",
+};
+
+Deno.test("sys - requests", async () => {
+  const akp = createAccount();
+  const id = akp.getPublicKey();
+  const jwt = await encodeAccount("A", akp, {}, { signer: createOperator() });
+
+  let r = claimsUpdateRequest(jwt);
+  assertEquals(r.subject, ClaimsUpdateSubject);
+  assertEquals(new TextDecoder().decode(r.data), jwt);
+  r = claimsUpdateRequest(jwt, true);
+  assertEquals(r.subject, `$SYS.REQ.ACCOUNT.${id}.CLAIMS.UPDATE`);
+
+  assertEquals(
+    claimsLookupRequest(id).subject,
+    `$SYS.REQ.ACCOUNT.${id}.CLAIMS.LOOKUP`,
+  );
+  assertEquals(claimsListRequest().subject, "$SYS.REQ.CLAIMS.LIST");
+  r = claimsPackRequest("abc");
+  assertEquals(r.subject, "$SYS.REQ.CLAIMS.PACK");
+  assertEquals(new TextDecoder().decode(r.data), "abc");
+
+  const user = await encodeUser("U", createUser(), akp);
+  const err = assertThrows(() => claimsUpdateRequest(user), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.UnexpectedClaimType);
+});
+
+Deno.test("sys - update responses", () => {
+  const ok = parseClaimsUpdateResponse(JSON.stringify({
+    server,
+    data: { account: "A", code: 200, message: "jwt updated" },
+  }));
+  assertEquals(ok.server.name, "n1");
+  assertEquals(ok.data?.code, 200);
+  assertEquals(ok.error, undefined);
+
+  const failed = parseClaimsUpdateResponse(
+    new TextEncoder().encode(JSON.stringify({
+      server,
+      error: { account: "A", code: 400, description: "jwt validation failed" },
+    })),
+  );
+  assertEquals(failed.data, undefined);
+  assertEquals(failed.error?.code, 400);
+  assertEquals(failed.error?.account, "A");
+
+  const err = assertThrows(() => parseServerResponse("hello"), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidFormat);
+  assertThrows(() => parseServerResponse("{}"), JwtError, "server");
+});
+
+Deno.test("sys - list and lookup responses", async () => {
+  const list = parseClaimsListResponse(
+    JSON.stringify({ server, data: ["A1", "A2"] }),
+  );
+  assertEquals(list.data, ["A1", "A2"]);
+
+  const akp = createAccount();
+  const id = akp.getPublicKey();
+  const jwt = await encodeAccount("A", akp);
+  assertEquals(parseClaimsLookupResponse(id, jwt), jwt);
+  assertEquals(parseClaimsLookupResponse(id, new Uint8Array(0)), undefined);
+  assertThrows(
+    () => parseClaimsLookupResponse(createAccount().getPublicKey(), jwt),
+    JwtError,
+    "doesn't match",
+  );
+});
+
+Deno.test("sys - pack responses", () => {
+  assertEquals(parseClaimsPackResponse("A1|jwt1\nA2|jwt2\n"), {
+    A1: "jwt1",
+    A2: "jwt2",
+  });
+  assertEquals(parseClaimsPackResponse(""), {});
+  assertThrows(() => parseClaimsPackResponse("garbage"), JwtError);
+});
+
+Deno.test("sys - account deletion", async () => {
+  const okp = createOperator();
+  const sk = createOperator();
+  const operator = await encodeOperator("O", okp, {
+    signing_keys: [sk.getPublicKey()],
+  });
+  const a1 = createAccount().getPublicKey();
+  const a2 = createAccount().getPublicKey();
+
+  let jwt = await encodeAccountDeletion(okp, [a1, a2]);
+  let dc = decodeAccountDeletion(jwt, operator);
+  assertEquals(dc.sub, okp.getPublicKey());
+  assertEquals(dc.iss, okp.getPublicKey());
+  assertEquals(dc.nats.accounts, [a1, a2]);
+  assertEquals(dc.nats.type, "generic");
+
+  // signed by an operator signing key
+  jwt = await encodeAccountDeletion(okp.getPublicKey(), [a1], { signer: sk });
+  dc = decodeAccountDeletion(jwt, operator);
+  assertEquals(dc.sub, okp.getPublicKey());
+  assertEquals(dc.iss, sk.getPublicKey());
+  assertEquals(dc.nats, { accounts: [a1], type: "generic", version: 2 });
+
+  const r = claimsDeleteRequest(jwt, operator);
+  assertEquals(r.subject, ClaimsDeleteSubject);
+  assertEquals(new TextDecoder().decode(r.data), jwt);
+});
+
+Deno.test("sys - account deletion must be from the operator", async () => {
+  const okp = createOperator();
+  const operator = await encodeOperator("O", okp);
+  const a = createAccount().getPublicKey();
+
+  // a signing key that is not in the operator
+  let jwt = await encodeAccountDeletion(okp.getPublicKey(), [a], {
+    signer: createOperator(),
+  });
+  let err = assertThrows(() => decodeAccountDeletion(jwt, operator), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.UntrustedIssuer);
+  assertThrows(() => claimsDeleteRequest(jwt, operator), JwtError);
+
+  // another operator
+  jwt = await encodeAccountDeletion(createOperator(), [a]);
+  err = assertThrows(() => decodeAccountDeletion(jwt, operator), JwtError);
+  assertEquals((err as JwtError).code, JwtErrorCode.InvalidClaim);
+
+  await assertRejects(
+    () => encodeAccountDeletion(okp, [createUser().getPublicKey()]),
+    JwtError,
+  );
+  await assertRejects(() => encodeAccountDeletion(okp, []), JwtError);
+  await assertRejects(
+    () => encodeAccountDeletion(createAccount(), [a]),
+    JwtError,
+  );
+});